@@ -0,0 +1,119 @@
+import { PhlagError, NetworkError, CircuitOpenError } from './exceptions/index.js';
+import type { CircuitState } from './types.js';
+
+/**
+ * Checks if an error means the Phlag server is down or failing
+ *
+ * Network failures and server errors (5xx) count. Other errors, such as an
+ * invalid API key, mean the server answered and is working.
+ *
+ * @param error - The error thrown by a request
+ * @returns True if the error is a server failure
+ */
+export function isServerFailure(error: unknown): boolean {
+  return error instanceof NetworkError || (error instanceof PhlagError && (error.code ?? 0) >= 500);
+}
+
+/**
+ * Circuit breaker for requests to the Phlag server
+ *
+ * - `closed`: requests are sent normally. After failureThreshold
+ *   consecutive server failures the breaker opens.
+ * - `open`: requests fail fast with a CircuitOpenError until
+ *   cooldownPeriod milliseconds have passed.
+ * - `half-open`: a single trial request is let through. If it succeeds the
+ *   breaker closes, otherwise it opens for another cool-down period.
+ *   Other requests keep failing fast while the trial is in flight.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownPeriod: number;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  /**
+   * Creates a new circuit breaker
+   *
+   * @param failureThreshold - Consecutive failures that open the breaker (default: 5)
+   * @param cooldownPeriod - Milliseconds the breaker stays open (default: 30000)
+   */
+  constructor(failureThreshold: number = 5, cooldownPeriod: number = 30000) {
+    this.failureThreshold = failureThreshold;
+    this.cooldownPeriod = cooldownPeriod;
+  }
+
+  /**
+   * Gets the current state
+   *
+   * An open breaker reports `half-open` once its cool-down period is over,
+   * since the next request will be let through as a trial.
+   *
+   * @returns The breaker state
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownPeriod) {
+      return 'half-open';
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Checks that a request may be sent
+   *
+   * Must be followed by recordSuccess(), recordFailure() or release() once
+   * the request completes.
+   *
+   * @throws {CircuitOpenError} When the breaker is open, or half-open with a trial in flight
+   */
+  acquire(): void {
+    const state = this.getState();
+    if (state === 'closed') {
+      return;
+    }
+
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.state = 'half-open';
+      this.trialInFlight = true;
+      return;
+    }
+
+    const retryIn = Math.max(0, this.openedAt + this.cooldownPeriod - Date.now());
+    throw new CircuitOpenError(
+      `Circuit breaker is open after repeated failures, retrying in ${retryIn}ms`
+    );
+  }
+
+  /**
+   * Records a request that reached a working server, closing the breaker
+   */
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Records a request that ended without showing whether the server works,
+   * letting another trial through if it was one
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Records a failed request, opening the breaker when the threshold is
+   * reached or a trial request fails
+   */
+  recordFailure(): void {
+    this.trialInFlight = false;
+    this.failures++;
+
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
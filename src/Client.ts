@@ -5,7 +5,84 @@ import {
   InvalidEnvironmentError,
   NetworkError,
 } from './exceptions/index.js';
-import type { FlagValue, FlagCache } from './types.js';
+import type {
+  FlagValue,
+  FlagCache,
+  ClientOptions,
+  RetryOptions,
+  CircuitState,
+  FetchFunction,
+  ApiKeyProvider,
+  RequestInterceptors,
+  InterceptedRequest,
+} from './types.js';
+import { SseParser } from './sse.js';
+import type { StreamHandlers } from './sse.js';
+import { backoffDelay, sleep } from './backoff.js';
+import { CircuitBreaker, isServerFailure } from './CircuitBreaker.js';
+import { Telemetry } from './telemetry.js';
+import type { RequestTrace } from './telemetry.js';
+
+/**
+ * Retry settings used for any option the caller leaves out
+ */
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelay: 200,
+  maxDelay: 5000,
+  jitter: true,
+  respectRetryAfter: true,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnErrors: [NetworkError],
+};
+
+/**
+ * Retry-After delays in milliseconds, keyed by the error thrown for the
+ * response that sent them
+ */
+const retryAfterDelays = new WeakMap<PhlagError, number>();
+
+/**
+ * Carries an error thrown by the onRequest or onResponse interceptor
+ *
+ * A throwing hook is a bug in the caller's code rather than a failed
+ * request, so its error isn't retried, counted by the circuit breaker or
+ * passed to onError. It's unwrapped and thrown as it is by get() and
+ * stream().
+ */
+class InterceptorFailure {
+  constructor(readonly error: unknown) {}
+}
+
+/**
+ * Gets the error to throw to the caller
+ *
+ * @param error - The error thrown by a request
+ * @returns The interceptor's own error, or the error unchanged
+ */
+function unwrapInterceptorFailure(error: unknown): unknown {
+  return error instanceof InterceptorFailure ? error.error : error;
+}
+
+/**
+ * Converts a thrown value into an Error for telemetry
+ *
+ * @param error - The thrown value
+ * @returns The value if it is an Error, otherwise an Error describing it
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Checks whether headers include an Authorization header, in any case
+ *
+ * @param headers - The headers option
+ * @returns Whether the headers replace the Bearer API key
+ */
+export function hasAuthorizationHeader(headers: Record<string, string> | undefined): boolean {
+  return Object.keys(headers ?? {}).some((header) => header.toLowerCase() === 'authorization');
+}
 
 /**
  * HTTP client wrapper for communicating with the Phlag API
@@ -16,8 +93,17 @@ import type { FlagValue, FlagCache } from './types.js';
  */
 export class Client {
   private readonly baseUrl: string;
-  private readonly apiKey: string;
+  private apiKey: string;
+  private readonly getApiKey: ApiKeyProvider | null;
+  private apiKeyPromise: Promise<string> | null = null;
+  private readonly headers: Record<string, string>;
   private readonly timeout: number;
+  private readonly fetchFn: FetchFunction | null;
+  private readonly interceptors: RequestInterceptors;
+  private readonly telemetry: Telemetry;
+  private readonly retry: Required<RetryOptions>;
+  private readonly breaker: CircuitBreaker | null;
+  private readonly inFlight = new Map<string, Promise<FlagValue | FlagCache>>();
 
   /**
    * Creates a new HTTP client for the Phlag API
@@ -27,13 +113,37 @@ export class Client {
    * when the base URL includes a subdirectory path.
    *
    * @param baseUrl - The base URL of the Phlag server (e.g., http://localhost:8000)
-   * @param apiKey - The 64-character API key for authentication
+   * @param apiKey - The 64-character API key for authentication, or an empty
+   *   string to ask the getApiKey option for it on the first request
    * @param timeout - Request timeout in milliseconds (default: 10000)
+   * @param options - Additional client options
    */
-  constructor(baseUrl: string, apiKey: string, timeout: number = 10000) {
+  constructor(
+    baseUrl: string,
+    apiKey: string,
+    timeout: number = 10000,
+    options: ClientOptions = {}
+  ) {
     this.baseUrl = baseUrl.replace(/\/$/, '');
     this.apiKey = apiKey;
+    this.getApiKey = options.getApiKey ?? null;
+    this.headers = options.headers ?? {};
     this.timeout = timeout;
+    this.fetchFn = options.fetch ?? null;
+    this.interceptors = options.interceptors ?? {};
+    this.telemetry = new Telemetry(options.telemetry);
+
+    // Without a retry policy, each request is attempted once
+    this.retry = options.retry
+      ? { ...DEFAULT_RETRY, ...options.retry }
+      : { ...DEFAULT_RETRY, maxAttempts: 1 };
+
+    this.breaker = options.circuitBreaker
+      ? new CircuitBreaker(
+          options.circuitBreaker.failureThreshold,
+          options.circuitBreaker.cooldownPeriod
+        )
+      : null;
   }
 
   /**
@@ -46,38 +156,156 @@ export class Client {
    * The endpoint should be a relative path (without leading slash) to properly
    * work with base URLs that include subdirectories.
    *
+   * When a retry policy is configured, failed attempts are retried with
+   * exponential backoff (see getRetryDelay()), and the error from the last
+   * attempt is thrown.
+   *
+   * When a circuit breaker is configured, each attempt counts towards it,
+   * and attempts made while it is open fail fast without a request.
+   *
+   * When the getApiKey option is set and the request fails with an
+   * AuthenticationError, a new API key is requested and the request is
+   * sent once more.
+   *
+   * Each attempt passes through the onRequest, onResponse and onError
+   * interceptors when they are configured, and is recorded as a span and
+   * in the request metrics when the telemetry option is set. An error
+   * thrown by onRequest or onResponse is thrown as it is, without retries.
+   *
+   * Concurrent calls for the same endpoint share a single request (with its
+   * retries), and all of them receive its result or error. Each caller gets
+   * its own copy of an object response. Once the request settles, the next
+   * call sends a new one.
+   *
    * @param endpoint - The API endpoint path (e.g., flag/production/feature_name)
    * @returns The decoded JSON response
    * @throws {AuthenticationError} When the API key is invalid (401)
    * @throws {InvalidFlagError} When a flag doesn't exist (404 on /flag endpoint)
    * @throws {InvalidEnvironmentError} When an environment doesn't exist (404)
    * @throws {NetworkError} When network communication fails
+   * @throws {CircuitOpenError} When the circuit breaker is open
    * @throws {PhlagError} For other HTTP errors
    */
   async get(endpoint: string): Promise<FlagValue>;
   async get(endpoint: string, returnObject: true): Promise<FlagCache>;
   async get(endpoint: string, returnObject = false): Promise<FlagValue | FlagCache> {
+    const key = `${returnObject ? 'object' : 'value'}:${endpoint}`;
+
+    let pending = this.inFlight.get(key);
+    if (pending === undefined) {
+      const send = () => this.getWithRetry(endpoint, returnObject);
+      pending = this.withApiKeyRefresh(send).finally(() => {
+        this.inFlight.delete(key);
+      });
+      this.inFlight.set(key, pending);
+    }
+
+    let result: FlagValue | FlagCache;
+    try {
+      result = await pending;
+    } catch (error) {
+      throw unwrapInterceptorFailure(error);
+    }
+
+    return typeof result === 'object' && result !== null && !Array.isArray(result)
+      ? { ...result }
+      : result;
+  }
+
+  /**
+   * Sends a GET request, retrying failed attempts per the retry policy
+   *
+   * @param endpoint - The API endpoint path
+   * @param returnObject - Whether an object response is expected
+   * @returns The decoded JSON response
+   */
+  private async getWithRetry(
+    endpoint: string,
+    returnObject: boolean
+  ): Promise<FlagValue | FlagCache> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.request(endpoint, returnObject);
+      } catch (error) {
+        if (error instanceof InterceptorFailure) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(error as PhlagError, attempt);
+        if (delay === null) {
+          throw error;
+        }
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Makes a single GET request attempt, through the circuit breaker if one
+   * is configured
+   *
+   * @param endpoint - The API endpoint path
+   * @param returnObject - Whether an object response is expected
+   * @returns The decoded JSON response
+   */
+  private async request(endpoint: string, returnObject: boolean): Promise<FlagValue | FlagCache> {
+    if (this.breaker === null) {
+      return this.send(endpoint, returnObject);
+    }
+
+    try {
+      this.breaker.acquire();
+    } catch (error) {
+      this.telemetry.recordError(error as PhlagError, endpoint.split('/')[0]);
+      throw error;
+    }
+
+    try {
+      const result = await this.send(endpoint, returnObject);
+      this.breaker.recordSuccess();
+      return result;
+    } catch (error) {
+      if (error instanceof InterceptorFailure) {
+        this.breaker.release();
+      } else if (isServerFailure(error)) {
+        this.breaker.recordFailure();
+      } else {
+        this.breaker.recordSuccess();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Sends a GET request and decodes the response
+   *
+   * @param endpoint - The API endpoint path
+   * @param returnObject - Whether an object response is expected
+   * @returns The decoded JSON response
+   */
+  private async send(endpoint: string, returnObject: boolean): Promise<FlagValue | FlagCache> {
+    const request = await this.prepareRequest(endpoint, 'application/json');
+    const trace = this.telemetry.startRequest(request);
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const startedAt = Date.now();
 
     try {
-      const url = `${this.baseUrl}/${endpoint}`;
-      const response = await fetch(url, {
+      const response = await this.fetch(request.url, {
         method: 'GET',
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          Accept: 'application/json',
-        },
+        headers: request.headers,
         signal: controller.signal,
       });
 
       clearTimeout(timeoutId);
+      await this.interceptResponse(request, response, startedAt, trace);
 
       if (!response.ok) {
         await this.handleErrorResponse(response, endpoint);
       }
 
       const text = await response.text();
+      trace.end(response.status);
 
       // Handle empty responses
       if (!text) {
@@ -102,26 +330,342 @@ export class Client {
       }
     } catch (error) {
       clearTimeout(timeoutId);
-
-      // Re-throw our custom errors
-      if (error instanceof PhlagError) {
+      if (error instanceof InterceptorFailure) {
         throw error;
       }
+      throw await this.reportError(request, error, startedAt, trace);
+    }
+  }
+
+  /**
+   * Opens a Server-Sent Events stream from the Phlag API
+   *
+   * The request uses the same authentication and error handling as get().
+   * The timeout only applies until the server responds; once the stream is
+   * open it stays open until the server closes it or the signal is aborted.
+   * Each event is passed to the onEvent handler as it arrives.
+   *
+   * @param endpoint - The API endpoint path (e.g., stream/production)
+   * @param handlers - Callbacks for the stream opening and each event
+   * @param signal - Optional signal that closes the stream
+   * @returns Resolves when the stream ends or the signal is aborted
+   * @throws {AuthenticationError} When the API key is invalid (401)
+   * @throws {InvalidEnvironmentError} When the endpoint doesn't exist (404)
+   * @throws {NetworkError} When network communication fails
+   * @throws {PhlagError} With code 406 when the response isn't an event stream
+   * @throws {PhlagError} For other HTTP errors
+   */
+  async stream(endpoint: string, handlers: StreamHandlers, signal?: AbortSignal): Promise<void> {
+    try {
+      return await this.withApiKeyRefresh(() => this.openStream(endpoint, handlers, signal));
+    } catch (error) {
+      throw unwrapInterceptorFailure(error);
+    }
+  }
+
+  /**
+   * Opens a Server-Sent Events stream and reads it until it closes
+   *
+   * @param endpoint - The API endpoint path
+   * @param handlers - Callbacks for the stream opening and each event
+   * @param signal - Optional signal that closes the stream
+   */
+  private async openStream(
+    endpoint: string,
+    handlers: StreamHandlers,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const request = await this.prepareRequest(endpoint, 'text/event-stream');
+    const trace = this.telemetry.startRequest(request);
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    const timeoutId = setTimeout(abort, this.timeout);
+    const startedAt = Date.now();
+
+    try {
+      const response = await this.fetch(request.url, {
+        method: 'GET',
+        headers: request.headers,
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+      await this.interceptResponse(request, response, startedAt, trace);
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response, endpoint);
+      }
+
+      // A server without streaming may answer with a plain 200 and close;
+      // report it as Not Acceptable so the caller stops reconnecting
+      const contentType = response.headers?.get('Content-Type') ?? '';
+      if (!contentType.toLowerCase().startsWith('text/event-stream')) {
+        throw new PhlagError(
+          `Expected a text/event-stream response, got ${contentType || 'no content type'}`,
+          406
+        );
+      }
+
+      if (!response.body) {
+        throw new PhlagError('Streaming responses are not supported by this fetch implementation');
+      }
+
+      trace.end(response.status);
+      handlers.onOpen?.();
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const parser = new SseParser();
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        for (const event of parser.feed(decoder.decode(value, { stream: true }))) {
+          handlers.onEvent(event);
+        }
+      }
+    } catch (error) {
+      clearTimeout(timeoutId);
 
-      // Handle abort errors
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new NetworkError(`Request timeout after ${this.timeout}ms`);
+      // Closed by the caller - not an error
+      if (signal?.aborted) {
+        return;
       }
 
-      // Handle other network errors
-      if (error instanceof Error) {
-        throw new NetworkError(`Network error: ${error.message}`, error);
+      if (error instanceof InterceptorFailure) {
+        throw error;
+      }
+      throw await this.reportError(request, error, startedAt, trace);
+    } finally {
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Builds the URL and headers for a request and passes them to the
+   * onRequest interceptor
+   *
+   * @param endpoint - The API endpoint path
+   * @param accept - The Accept header value
+   * @returns The request to send
+   */
+  private async prepareRequest(endpoint: string, accept: string): Promise<InterceptedRequest> {
+    if (this.apiKey === '' && this.getApiKey !== null && !hasAuthorizationHeader(this.headers)) {
+      await this.refreshApiKey();
+    }
+
+    const request: InterceptedRequest = {
+      endpoint,
+      url: `${this.baseUrl}/${endpoint}`,
+      headers: {
+        ...(hasAuthorizationHeader(this.headers) ? {} : { Authorization: `Bearer ${this.apiKey}` }),
+        ...this.headers,
+        Accept: accept,
+      },
+    };
+
+    try {
+      await this.interceptors.onRequest?.(request);
+    } catch (error) {
+      this.telemetry.recordError(toError(error), endpoint.split('/')[0]);
+      throw new InterceptorFailure(error);
+    }
+
+    return request;
+  }
+
+  /**
+   * Passes a response to the onResponse interceptor
+   *
+   * @param request - The request as it was sent
+   * @param response - The HTTP response
+   * @param startedAt - When the request was sent, in milliseconds since the epoch
+   * @param trace - Telemetry for the request
+   * @throws {InterceptorFailure} When the interceptor throws
+   */
+  private async interceptResponse(
+    request: InterceptedRequest,
+    response: Response,
+    startedAt: number,
+    trace: RequestTrace
+  ): Promise<void> {
+    try {
+      await this.interceptors.onResponse?.({
+        request,
+        response,
+        duration: Date.now() - startedAt,
+      });
+    } catch (error) {
+      trace.end(response.status, toError(error));
+      throw new InterceptorFailure(error);
+    }
+  }
+
+  /**
+   * Sends a request again with a new API key if it fails authentication
+   *
+   * Without the getApiKey option, errors are thrown as they are.
+   *
+   * @param send - Sends the request
+   * @returns The result of the request
+   */
+  private async withApiKeyRefresh<T>(send: () => Promise<T>): Promise<T> {
+    try {
+      return await send();
+    } catch (error) {
+      if (!(error instanceof AuthenticationError) || this.getApiKey === null) {
+        throw error;
       }
 
-      throw new NetworkError('Unknown network error');
+      await this.refreshApiKey();
+      return send();
     }
   }
 
+  /**
+   * Gets a new API key from the getApiKey option
+   *
+   * Concurrent calls share a single call to the provider.
+   *
+   * @returns The new API key
+   */
+  private refreshApiKey(): Promise<string> {
+    if (this.apiKeyPromise === null) {
+      const getApiKey = this.getApiKey!;
+      this.apiKeyPromise = Promise.resolve()
+        .then(() => getApiKey())
+        .then((apiKey) => {
+          this.apiKey = apiKey;
+          return apiKey;
+        })
+        .finally(() => {
+          this.apiKeyPromise = null;
+        });
+    }
+
+    return this.apiKeyPromise;
+  }
+
+  /**
+   * Converts a request failure into a Phlag exception, records it and
+   * passes it to the onError interceptor
+   *
+   * @param request - The request that failed
+   * @param error - The error thrown by fetch or response handling
+   * @param startedAt - When the request was sent, in milliseconds since the epoch
+   * @param trace - Telemetry for the request
+   * @returns The error to throw
+   */
+  private async reportError(
+    request: InterceptedRequest,
+    error: unknown,
+    startedAt: number,
+    trace: RequestTrace
+  ): Promise<PhlagError> {
+    const normalized = this.normalizeError(error);
+    trace.end(normalized.code, normalized);
+    await this.interceptors.onError?.({
+      request,
+      error: normalized,
+      duration: Date.now() - startedAt,
+    });
+
+    return normalized;
+  }
+
+  /**
+   * Sends a request with the fetch option, or the global fetch
+   *
+   * The global fetch is looked up on each request rather than when the
+   * client is created, so it can be polyfilled or replaced later.
+   *
+   * @param url - The request URL
+   * @param init - The request options
+   * @returns The response
+   * @throws {PhlagError} When no fetch option was given and there is no global fetch
+   */
+  private fetch(url: string, init: RequestInit): Promise<Response> {
+    // Called without a receiver, since browsers reject fetch bound to other objects
+    const fetchFn = this.fetchFn ?? globalThis.fetch;
+    if (typeof fetchFn !== 'function') {
+      throw new PhlagError('No global fetch is available, pass one with the fetch option');
+    }
+
+    return fetchFn(url, init);
+  }
+
+  /**
+   * Gets the state of the circuit breaker
+   *
+   * @returns The breaker state, always `closed` when no breaker is configured
+   */
+  getCircuitState(): CircuitState {
+    return this.breaker?.getState() ?? 'closed';
+  }
+
+  /**
+   * Decides whether and when a failed attempt is retried
+   *
+   * An error is retried when its status code is in retryOnStatus or it is
+   * an instance of one of the retryOnErrors classes, and attempts remain.
+   * The delay comes from the response's Retry-After header when there is
+   * one, otherwise from exponential backoff. A Retry-After longer than
+   * maxDelay gives up rather than holding the caller that long.
+   *
+   * @param error - The error thrown by the attempt
+   * @param attempt - Zero-based number of the attempt that failed
+   * @returns The delay in milliseconds, or null to stop retrying
+   */
+  private getRetryDelay(error: PhlagError, attempt: number): number | null {
+    const { maxAttempts, baseDelay, maxDelay, jitter, respectRetryAfter } = this.retry;
+    if (attempt + 1 >= maxAttempts) {
+      return null;
+    }
+
+    const retryable =
+      (error.code !== undefined && this.retry.retryOnStatus.includes(error.code)) ||
+      this.retry.retryOnErrors.some((errorClass) => error instanceof errorClass);
+    if (!retryable) {
+      return null;
+    }
+
+    const retryAfter = retryAfterDelays.get(error);
+    if (respectRetryAfter && retryAfter !== undefined) {
+      return retryAfter <= maxDelay ? retryAfter : null;
+    }
+
+    return backoffDelay(attempt, baseDelay, maxDelay, jitter);
+  }
+
+  /**
+   * Converts errors thrown during a request into Phlag exceptions
+   *
+   * @param error - The error thrown by fetch or response handling
+   * @returns The error to throw
+   */
+  private normalizeError(error: unknown): PhlagError {
+    // Re-throw our custom errors
+    if (error instanceof PhlagError) {
+      return error;
+    }
+
+    // Handle abort errors
+    if (error instanceof Error && error.name === 'AbortError') {
+      return new NetworkError(`Request timeout after ${this.timeout}ms`);
+    }
+
+    // Handle other network errors
+    if (error instanceof Error) {
+      return new NetworkError(`Network error: ${error.message}`, error);
+    }
+
+    return new NetworkError('Unknown network error');
+  }
+
   /**
    * Handles HTTP error responses by throwing appropriate exceptions
    *
@@ -156,6 +700,33 @@ export class Client {
       // Ignore errors reading response body
     }
 
-    throw new PhlagError(errorMessage, statusCode);
+    const error = new PhlagError(errorMessage, statusCode);
+    const retryAfter = parseRetryAfter(response.headers?.get('Retry-After') ?? null);
+    if (retryAfter !== null) {
+      retryAfterDelays.set(error, retryAfter);
+    }
+
+    throw error;
   }
 }
+
+/**
+ * Parses a Retry-After header
+ *
+ * The header holds either a number of seconds or an HTTP date.
+ *
+ * @param value - The header value
+ * @returns The delay in milliseconds, or null if the header is missing or invalid
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
@@ -1,12 +1,79 @@
-import { Client } from './Client.js';
-import type { FlagValue, PhlagClientOptions, FlagCache } from './types.js';
+import { Client, hasAuthorizationHeader } from './Client.js';
+import type {
+  FlagValue,
+  PhlagClientOptions,
+  FlagCache,
+  PhlagClientEvents,
+  BatchStrategy,
+  FlagType,
+  FlagDefinitions,
+  FlagName,
+  FlagSchema,
+  SchemaViolation,
+  CircuitState,
+  FlagSource,
+  FlagEvaluation,
+  FlagUsageReport,
+  FlagCacheStore,
+  CacheEntry,
+  TelemetrySpan,
+} from './types.js';
+import { matchesFlagType } from './flagTypes.js';
+import { EventEmitter } from './events.js';
+import type { EventListener } from './events.js';
+import { PhlagError, InvalidFlagError, CircuitOpenError } from './exceptions/index.js';
+import { isServerFailure } from './CircuitBreaker.js';
+import { backoffDelay, sleep } from './backoff.js';
+import { Telemetry } from './telemetry.js';
+import { UsageTracker } from './usage.js';
+import type { ServerSentEvent } from './sse.js';
 import {
   generateCacheFilename,
-  loadCacheFromFile,
-  writeCacheToFile,
-  deleteCacheFile,
+  generateCacheKey,
+  isBrowserEnvironment,
   isNodeEnvironment,
 } from './cache.js';
+import { BrowserCacheStore, FileCacheStore } from './stores.js';
+
+/**
+ * Milliseconds between cache store checks while another process holds the
+ * refresh lock
+ */
+const CACHE_LOCK_POLL_INTERVAL = 50;
+
+/**
+ * Milliseconds a stream must stay open, without sending an event, before
+ * its reconnect backoff starts over
+ */
+const STREAM_STABLE_AFTER = 30000;
+
+/**
+ * Result of reading the in-memory flag cache
+ */
+interface CacheRead {
+  /**
+   * All flags for the environment
+   */
+  flags: FlagCache;
+
+  /**
+   * Whether the flags were served without waiting for a load
+   */
+  hit: boolean;
+
+  /**
+   * Where the flags came from for this read
+   */
+  source: FlagSource;
+}
+
+/**
+ * A flag value along with where it came from
+ */
+interface FlagRead {
+  value: FlagValue;
+  source: FlagSource;
+}
 
 /**
  * Primary client for interacting with the Phlag feature flag API
@@ -20,6 +87,7 @@ import {
  * once using the /all-flags endpoint and serves subsequent requests from
  * the cached data. This dramatically reduces API calls but means flag
  * changes won't be reflected until the cache expires (default 5 minutes).
+ * Once expired, the next flag request refetches all flags from the API.
  *
  * @example
  * ```typescript
@@ -36,6 +104,9 @@ import {
  *
  * // Get a typed value
  * const maxItems = await client.getFlag('max_items'); // returns number or null
+ *
+ * // Get a value checked against its flag type, with a default
+ * const limit = await client.getInteger('max_items', 50); // returns number
  * ```
  *
  * @example With caching
@@ -48,18 +119,121 @@ import {
  *   cacheTtl: 300,    // Cache for 5 minutes
  * });
  * ```
+ *
+ * @example Serving stale flags while refreshing
+ * ```typescript
+ * const client = new PhlagClient({
+ *   baseUrl: 'http://localhost:8000',
+ *   apiKey: 'your-api-key',
+ *   environment: 'production',
+ *   cache: true,
+ *   staleWhileRevalidate: true, // Never block on a refresh
+ *   maxStaleness: 3600,         // Surface errors after an hour of failures
+ * });
+ * ```
+ *
+ * @example Reacting to flag changes
+ * ```typescript
+ * const client = new PhlagClient({
+ *   baseUrl: 'http://localhost:8000',
+ *   apiKey: 'your-api-key',
+ *   environment: 'production',
+ *   cache: true,
+ *   pollInterval: 30, // Refetch all flags every 30 seconds
+ * });
+ *
+ * client.on('change', ({ name, oldValue, newValue }) => {
+ *   console.log(`${name} changed from ${oldValue} to ${newValue}`);
+ * });
+ *
+ * client.start();
+ * // ... on shutdown
+ * client.stop();
+ * ```
+ *
+ * @example Real-time updates over Server-Sent Events
+ * ```typescript
+ * const client = new PhlagClient({
+ *   baseUrl: 'http://localhost:8000',
+ *   apiKey: 'your-api-key',
+ *   environment: 'production',
+ *   cache: true,
+ *   stream: true,      // Falls back to polling if the stream is unavailable
+ *   pollInterval: 60,
+ * });
+ *
+ * client.start();
+ * ```
+ *
+ * @example Typed flags with a runtime schema
+ * ```typescript
+ * interface AppFlags {
+ *   feature_checkout: boolean;
+ *   max_items: number;
+ * }
+ *
+ * const client = new PhlagClient<AppFlags>({
+ *   baseUrl: 'http://localhost:8000',
+ *   apiKey: 'your-api-key',
+ *   environment: 'production',
+ *   cache: true,
+ *   schema: {
+ *     feature_checkout: { type: 'SWITCH', default: false },
+ *     max_items: { type: 'INTEGER', default: 50 },
+ *   },
+ * });
+ *
+ * const maxItems = await client.getFlag('max_items'); // number | null
+ * await client.getFlag('max_itmes'); // compile error
+ * ```
+ *
+ * @example Usable before the server answers
+ * ```typescript
+ * const client = new PhlagClient({
+ *   baseUrl: 'http://localhost:8000',
+ *   apiKey: 'your-api-key',
+ *   environment: 'production',
+ *   cache: true,
+ *   bootstrap: window.__PHLAG_FLAGS__, // Served until the first fetch succeeds
+ *   defaults: { max_items: 50 },       // Used for flags the server doesn't know
+ * });
+ * ```
  */
-export class PhlagClient {
+export class PhlagClient<TFlags extends FlagDefinitions<TFlags> = FlagCache> {
+  private readonly options: PhlagClientOptions<TFlags>;
   private readonly client: Client;
   private readonly environment: string;
   private readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly timeout: number;
   private readonly cacheEnabled: boolean;
-  private readonly cacheFile: string;
+  private cacheFile: string | null = null;
+  private readonly cacheKey: string;
   private readonly cacheTtl: number;
-  private readonly useFileCache: boolean;
+  private readonly cacheStore: FlagCacheStore | null;
+  private readonly staleWhileRevalidate: boolean;
+  private readonly maxStaleness: number;
+  private readonly pollInterval: number;
+  private readonly streamEnabled: boolean;
+  private readonly streamReconnectDelay: number;
+  private readonly streamMaxReconnectDelay: number;
+  private readonly batchStrategy: BatchStrategy;
+  private readonly batchConcurrency: number;
+  private readonly schema: Partial<FlagSchema>;
+  private readonly defaults: FlagCache;
+  private readonly bootstrap: FlagCache | null;
+  private readonly strict: boolean;
+  private readonly events = new EventEmitter<PhlagClientEvents>();
+  private readonly telemetry: Telemetry;
+  private readonly usage: UsageTracker | null;
   private flagCache: FlagCache | null = null;
+  private cacheFetchedAt = 0;
+  private bootstrapped = false;
+  private loadPromise: Promise<'file' | 'network'> | null = null;
+  private refreshPromise: Promise<void> | null = null;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private streamController: AbortController | null = null;
+  private unsubscribeStore: (() => void) | null = null;
 
   /**
    * Creates a new Phlag client for a specific environment
@@ -70,25 +244,80 @@ export class PhlagClient {
    *
    * When caching is enabled, the client fetches all flags for the environment
    * once using the /all-flags endpoint and serves subsequent requests from
-   * the cached data. In Node.js environments, the cache is also persisted to
-   * disk for cross-request persistence.
+   * the cached data. The cache is also persisted to the cacheStore option,
+   * or to disk in Node.js environments, for cross-request persistence.
    *
    * @param options - Configuration options for the client
+   * @throws {PhlagError} When neither apiKey, getApiKey nor an Authorization header is set
+   * @throws {PhlagError} When a byte array cacheEncryptionKey isn't 32 bytes long
    */
-  constructor(options: PhlagClientOptions) {
+  constructor(options: PhlagClientOptions<TFlags>) {
+    if (
+      !options.apiKey &&
+      options.getApiKey === undefined &&
+      !hasAuthorizationHeader(options.headers)
+    ) {
+      throw new PhlagError(
+        'Either the apiKey or the getApiKey option, or an Authorization header, is required'
+      );
+    }
+
+    this.options = options;
     this.baseUrl = options.baseUrl;
-    this.apiKey = options.apiKey;
+    this.apiKey = options.apiKey ?? '';
     this.environment = options.environment;
     this.timeout = options.timeout ?? 10000;
     this.cacheEnabled = options.cache ?? false;
     this.cacheTtl = options.cacheTtl ?? 300;
-    this.client = new Client(this.baseUrl, this.apiKey, this.timeout);
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? false;
+    this.maxStaleness = options.maxStaleness ?? 3600;
+    this.pollInterval = options.pollInterval ?? 0;
+    this.streamEnabled = options.stream ?? false;
+    this.streamReconnectDelay = options.streamReconnectDelay ?? 1000;
+    this.streamMaxReconnectDelay = options.streamMaxReconnectDelay ?? 30000;
+    this.batchStrategy = options.batchStrategy ?? 'all-flags';
+    this.batchConcurrency = options.batchConcurrency ?? 5;
+    this.schema = (options.schema ?? {}) as Partial<FlagSchema>;
+    this.defaults = (options.defaults ?? {}) as FlagCache;
+    this.bootstrap = options.bootstrap ?? null;
+    this.strict = options.strict ?? false;
+    this.telemetry = new Telemetry(options.telemetry);
+    this.usage = options.trackUsage ? new UsageTracker() : null;
+    this.client = new Client(this.baseUrl, this.apiKey, this.timeout, {
+      fetch: options.fetch,
+      headers: options.headers,
+      getApiKey: options.getApiKey,
+      retry: options.retry,
+      circuitBreaker: options.circuitBreaker,
+      interceptors: options.interceptors,
+      telemetry: options.telemetry,
+    });
 
-    // Check if we can use file-based caching (Node.js only)
-    this.useFileCache = this.cacheEnabled && isNodeEnvironment();
+    this.cacheKey = generateCacheKey(this.baseUrl, this.environment);
 
-    // Generate cache filename
-    this.cacheFile = generateCacheFilename(this.baseUrl, this.environment, options.cacheFile);
+    // Persist snapshots to the configured store, a file in Node.js, or
+    // localStorage and IndexedDB in browsers
+    if (!this.cacheEnabled) {
+      this.cacheStore = null;
+    } else if (options.cacheStore) {
+      this.cacheStore = options.cacheStore;
+    } else if (isNodeEnvironment()) {
+      this.cacheStore = new FileCacheStore({
+        file: this.getCacheFile(),
+        mode: options.cacheFileMode,
+        encryptionKey: options.cacheEncryptionKey,
+      });
+    } else if (isBrowserEnvironment()) {
+      this.cacheStore = new BrowserCacheStore();
+    } else {
+      this.cacheStore = null;
+    }
+
+    // Serve the bootstrap snapshot until the first fetch succeeds
+    if (this.cacheEnabled && this.bootstrap !== null) {
+      this.flagCache = { ...this.bootstrap };
+      this.bootstrapped = true;
+    }
   }
 
   /**
@@ -107,29 +336,106 @@ export class PhlagClient {
    * types). SWITCH flags return false when inactive.
    *
    * When caching is enabled, this method serves values from the in-memory
-   * cache (populated on first request). When caching is disabled, each call
-   * makes a direct API request to /flag/{environment}/{name}.
+   * cache (populated on first request and refreshed once it is older than
+   * the cache TTL). When caching is disabled, each call makes a direct API
+   * request to /flag/{environment}/{name}.
+   *
+   * When the flag is declared in the schema option, its default is returned
+   * in place of a null, missing or wrongly typed value.
+   *
+   * When the flag doesn't exist, its value from the defaults option is
+   * returned. Without a default, a cached read returns null unless the
+   * strict option is set, in which case it throws an InvalidFlagError just
+   * like an uncached read. When the server can't be reached, its value
+   * from the bootstrap or defaults option is returned, and the error is
+   * only thrown for flags that have neither.
+   *
+   * When the telemetry option has a tracer, each call is recorded as a
+   * `phlag.get_flag` span with the flag name, environment and, with caching
+   * enabled, whether it was a cache hit.
    *
    * @param name - The flag name
    * @returns The flag value (boolean, number, string, or null)
    * @throws {AuthenticationError} When the API key is invalid
-   * @throws {InvalidFlagError} When the flag doesn't exist (cache disabled only)
+   * @throws {InvalidFlagError} When the flag doesn't exist and has no default (cache disabled, or strict mode)
    * @throws {InvalidEnvironmentError} When the environment doesn't exist
    * @throws {NetworkError} When network communication fails
    * @throws {PhlagError} For other errors
    */
-  async getFlag(name: string): Promise<FlagValue> {
+  async getFlag<K extends FlagName<TFlags>>(name: K): Promise<TFlags[K] | null> {
+    this.usage?.record(name);
+
+    const attributes = { 'phlag.flag.name': name, 'phlag.environment': this.environment };
+    const { value, source } = await this.telemetry.traceFlag(attributes, (span) =>
+      this.readFlag(name, span)
+    );
+
+    this.reportEvaluation({
+      name,
+      value,
+      environment: this.environment,
+      source,
+      timestamp: Date.now(),
+    });
+
+    return value as TFlags[K] | null;
+  }
+
+  /**
+   * Reads a flag from the cache or the API, applying fallbacks and the schema
+   *
+   * @param name - The flag name
+   * @param span - The span for the read, when tracing
+   * @returns The flag value and where it came from
+   */
+  private async readFlag(name: string, span: TelemetrySpan | null): Promise<FlagRead> {
+    let read: FlagRead;
+
     if (this.cacheEnabled) {
-      // Lazy load cache on first request
-      if (this.flagCache === null) {
-        await this.loadCache();
+      try {
+        const { flags, hit, source } = await this.readCache();
+        span?.setAttribute('phlag.cache.hit', hit);
+        read = this.lookupFlag(flags, name, source);
+      } catch (error) {
+        read = this.getFallbackValue(name, error);
       }
-
-      return this.flagCache![name] ?? null;
     } else {
       // Use direct API call
       const endpoint = `flag/${this.environment}/${name}`;
-      return await this.client.get(endpoint);
+      try {
+        read = { value: await this.client.get(endpoint), source: 'network' };
+      } catch (error) {
+        read = this.getFallbackValue(name, error);
+      }
+
+      // Snapshots are validated when fetched; single values when read
+      const entry = this.schema[name];
+      const { value } = read;
+      if (entry && value !== null && !matchesFlagType(value, entry.type)) {
+        this.reportSchemaViolation({ name, reason: 'type', expected: entry.type, value });
+      }
+    }
+
+    const value = this.applySchema(name, read.value);
+    return { value, source: value === read.value ? read.source : 'default' };
+  }
+
+  /**
+   * Passes a flag read to the onEvaluation option
+   *
+   * Errors thrown by the callback are logged rather than failing the read.
+   *
+   * @param evaluation - The flag read
+   */
+  private reportEvaluation(evaluation: FlagEvaluation): void {
+    if (!this.options.onEvaluation) {
+      return;
+    }
+
+    try {
+      this.options.onEvaluation(evaluation);
+    } catch (error) {
+      console.error('Phlag: Error in onEvaluation callback', error);
     }
   }
 
@@ -150,11 +456,183 @@ export class PhlagClient {
    * @throws {NetworkError} When network communication fails
    * @throws {PhlagError} For other errors
    */
-  async isEnabled(name: string): Promise<boolean> {
+  async isEnabled(name: FlagName<TFlags>): Promise<boolean> {
     const value = await this.getFlag(name);
     return value === true;
   }
 
+  /**
+   * Gets a SWITCH flag as a boolean
+   *
+   * Unlike isEnabled(), a value that isn't a boolean is reported through
+   * the onTypeMismatch option rather than silently treated as false.
+   *
+   * @param name - The flag name
+   * @param defaultValue - Returned when the flag is null or not a boolean (default: false)
+   * @returns The flag value or the default
+   * @throws {AuthenticationError} When the API key is invalid
+   * @throws {InvalidFlagError} When the flag doesn't exist (cache disabled, or strict mode)
+   * @throws {InvalidEnvironmentError} When the environment doesn't exist
+   * @throws {NetworkError} When network communication fails
+   * @throws {PhlagError} For other errors
+   */
+  async getBoolean(name: FlagName<TFlags>, defaultValue: boolean = false): Promise<boolean> {
+    return this.getTypedFlag(name, 'SWITCH', defaultValue);
+  }
+
+  /**
+   * Gets a FLOAT flag as a number
+   *
+   * Whole numbers are accepted, so this can also read INTEGER flags.
+   *
+   * @param name - The flag name
+   * @param defaultValue - Returned when the flag is null or not a number
+   * @returns The flag value or the default
+   * @throws {AuthenticationError} When the API key is invalid
+   * @throws {InvalidFlagError} When the flag doesn't exist (cache disabled, or strict mode)
+   * @throws {InvalidEnvironmentError} When the environment doesn't exist
+   * @throws {NetworkError} When network communication fails
+   * @throws {PhlagError} For other errors
+   */
+  async getNumber(name: FlagName<TFlags>, defaultValue: number): Promise<number> {
+    return this.getTypedFlag(name, 'FLOAT', defaultValue);
+  }
+
+  /**
+   * Gets an INTEGER flag as a number
+   *
+   * Numbers with a fractional part are reported as a type mismatch.
+   *
+   * @param name - The flag name
+   * @param defaultValue - Returned when the flag is null or not a whole number
+   * @returns The flag value or the default
+   * @throws {AuthenticationError} When the API key is invalid
+   * @throws {InvalidFlagError} When the flag doesn't exist (cache disabled, or strict mode)
+   * @throws {InvalidEnvironmentError} When the environment doesn't exist
+   * @throws {NetworkError} When network communication fails
+   * @throws {PhlagError} For other errors
+   */
+  async getInteger(name: FlagName<TFlags>, defaultValue: number): Promise<number> {
+    return this.getTypedFlag(name, 'INTEGER', defaultValue);
+  }
+
+  /**
+   * Gets a STRING flag as a string
+   *
+   * @param name - The flag name
+   * @param defaultValue - Returned when the flag is null or not a string
+   * @returns The flag value or the default
+   * @throws {AuthenticationError} When the API key is invalid
+   * @throws {InvalidFlagError} When the flag doesn't exist (cache disabled, or strict mode)
+   * @throws {InvalidEnvironmentError} When the environment doesn't exist
+   * @throws {NetworkError} When network communication fails
+   * @throws {PhlagError} For other errors
+   */
+  async getString(name: FlagName<TFlags>, defaultValue: string): Promise<string> {
+    return this.getTypedFlag(name, 'STRING', defaultValue);
+  }
+
+  /**
+   * Gets the values of several feature flags at once
+   *
+   * When caching is enabled, all values are served from the cache. When
+   * caching is disabled, the batchStrategy option decides how they are
+   * fetched:
+   *
+   * - `all-flags` (default): one request to /all-flags/{environment},
+   *   returning just the requested flags
+   * - `parallel`: one request to /flag/{environment}/{name} per flag, with
+   *   at most batchConcurrency requests in flight
+   *
+   * Flags that don't exist are left out of the result rather than throwing
+   * an InvalidFlagError, and their names are passed to onMissing, unless
+   * they have a value in the defaults option. Duplicate names are only
+   * fetched once. Schema defaults apply to flags that exist but are null or
+   * of the wrong type.
+   *
+   * When the server can't be reached and the bootstrap or defaults option
+   * is set, the values are taken from those instead.
+   *
+   * @param names - The flag names
+   * @param onMissing - Called with the names of flags that don't exist
+   * @returns The flag values keyed by name
+   * @throws {AuthenticationError} When the API key is invalid
+   * @throws {InvalidEnvironmentError} When the environment doesn't exist
+   * @throws {NetworkError} When network communication fails
+   * @throws {PhlagError} For other errors
+   */
+  async getFlags<K extends FlagName<TFlags>>(
+    names: K[],
+    onMissing?: (missing: K[]) => void
+  ): Promise<Partial<{ [P in K]: TFlags[P] | null }>> {
+    const unique = [...new Set(names)];
+    let result: Record<string, FlagValue>;
+
+    for (const name of unique) {
+      this.usage?.record(name);
+    }
+
+    try {
+      if (this.cacheEnabled) {
+        result = this.pickFlags(await this.getCachedFlags(), unique);
+      } else if (this.batchStrategy === 'parallel') {
+        result = await this.fetchFlagsInParallel(unique);
+      } else {
+        result = this.pickFlags(await this.fetchAllFlagsFromApi(), unique);
+      }
+    } catch (error) {
+      result = this.pickFlags(this.getFallbackFlags(error), unique);
+    }
+
+    for (const name of unique) {
+      if (!(name in result) && this.hasDefault(name)) {
+        result[name] = this.defaults[name];
+      }
+    }
+
+    const missing = unique.filter((name) => !(name in result));
+    if (missing.length > 0) {
+      onMissing?.(missing);
+    }
+
+    for (const name of Object.keys(result)) {
+      result[name] = this.applySchema(name, result[name]);
+    }
+
+    return result as Partial<{ [P in K]: TFlags[P] | null }>;
+  }
+
+  /**
+   * Gets the values of all flags in the environment
+   *
+   * When caching is enabled, the snapshot is served from the cache (loading
+   * or refreshing it as getFlag() would) and a copy is returned, so changes
+   * made by the caller never reach the cache. When caching is disabled,
+   * each call makes a direct API request to /all-flags/{environment}.
+   *
+   * Useful for shipping a snapshot of flags to a frontend or rendering a
+   * diagnostics page. Values are returned as the API sent them, without
+   * schema defaults applied. When the server can't be reached and the
+   * bootstrap or defaults option is set, their values are returned instead.
+   *
+   * @returns All flag values keyed by name
+   * @throws {AuthenticationError} When the API key is invalid
+   * @throws {InvalidEnvironmentError} When the environment doesn't exist
+   * @throws {NetworkError} When network communication fails
+   * @throws {PhlagError} For other errors
+   */
+  async getAllFlags(): Promise<FlagCache> {
+    try {
+      if (this.cacheEnabled) {
+        return { ...(await this.getCachedFlags()) };
+      }
+
+      return await this.fetchAllFlagsFromApi();
+    } catch (error) {
+      return this.getFallbackFlags(error);
+    }
+  }
+
   /**
    * Gets the current environment name
    *
@@ -172,114 +650,1002 @@ export class PhlagClient {
    * when you need to query multiple environments without maintaining multiple
    * client instances.
    *
-   * The original client instance is not modified (immutable pattern). Cache
-   * settings are preserved, but a new cache file is generated for the new
-   * environment to prevent cache collisions.
+   * The original client instance is not modified (immutable pattern). All
+   * other options are preserved, but a new cache file is generated for the
+   * new environment to prevent cache collisions, and the bootstrap snapshot
+   * is dropped since it belongs to the original environment.
    *
    * @param environment - The new environment name
    * @returns A new PhlagClient instance for the specified environment
    */
-  withEnvironment(environment: string): PhlagClient {
-    return new PhlagClient({
-      baseUrl: this.baseUrl,
-      apiKey: this.apiKey,
+  withEnvironment(environment: string): PhlagClient<TFlags> {
+    return new PhlagClient<TFlags>({
+      ...this.options,
       environment,
-      timeout: this.timeout,
-      cache: this.cacheEnabled,
-      cacheTtl: this.cacheTtl,
       // Let new instance generate its own cache file
+      cacheFile: undefined,
+      bootstrap: undefined,
     });
   }
 
   /**
-   * Loads flag cache from file or API
+   * Gets a flag and checks it against a flag type
    *
-   * This method first checks if a valid cache file exists (Node.js only).
-   * If the file exists and hasn't expired, it loads the cached data.
-   * Otherwise, it fetches all flags from the API using the /all-flags
-   * endpoint and writes the cache file.
+   * Null values (inactive flags) return the default quietly. Values of the
+   * wrong type return the default and are reported to onTypeMismatch, or
+   * logged as a warning when no handler is configured. Errors thrown by the
+   * handler are logged rather than failing the read.
    *
-   * Cache file write failures are logged but don't throw exceptions,
-   * allowing graceful degradation to in-memory-only caching.
+   * @param name - The flag name
+   * @param type - The expected flag type
+   * @param defaultValue - Returned when the value is null or doesn't match
+   * @returns The flag value or the default
    */
-  private async loadCache(): Promise<void> {
-    // Try to load from file cache (Node.js only)
-    if (this.useFileCache) {
-      const cached = await loadCacheFromFile(this.cacheFile, this.cacheTtl);
-      if (cached !== null) {
-        this.flagCache = cached;
-        return;
+  private async getTypedFlag<T extends FlagValue>(
+    name: FlagName<TFlags>,
+    type: FlagType,
+    defaultValue: T
+  ): Promise<T> {
+    const value: FlagValue = await this.getFlag(name);
+
+    if (value === null) {
+      return defaultValue;
+    }
+
+    if (matchesFlagType(value, type)) {
+      return value as T;
+    }
+
+    if (this.options.onTypeMismatch) {
+      try {
+        this.options.onTypeMismatch({ name, expected: type, value });
+      } catch (error) {
+        console.error('Phlag: Error in onTypeMismatch callback', error);
       }
+    } else {
+      console.warn(`Phlag: Flag ${name} is not a ${type} value, using default`, value);
     }
 
-    // Cache miss or expired - fetch from API
-    const endpoint = `all-flags/${this.environment}`;
-    this.flagCache = await this.client.get(endpoint, true);
+    return defaultValue;
+  }
+
+  /**
+   * Reads a flag from a snapshot, falling back to the defaults option
+   *
+   * Flags that are neither in the snapshot nor the defaults option are
+   * reported to onUnknownFlag, and throw in strict mode. Errors thrown by
+   * onUnknownFlag are logged rather than failing the read. A bootstrap
+   * snapshot may not hold every flag, so its missing names return null
+   * quietly until the server has answered.
+   *
+   * @param flags - All flags for the environment
+   * @param name - The flag name
+   * @param source - Where the snapshot came from
+   * @returns The flag value, its default, or null
+   * @throws {InvalidFlagError} When the flag doesn't exist in strict mode
+   */
+  private lookupFlag(flags: FlagCache, name: string, source: FlagSource): FlagRead {
+    if (flags && Object.prototype.hasOwnProperty.call(flags, name)) {
+      return { value: flags[name], source };
+    }
+
+    if (this.hasDefault(name)) {
+      return { value: this.defaults[name], source: 'default' };
+    }
 
-    // Write to cache file (Node.js only)
-    if (this.useFileCache && this.flagCache) {
-      await writeCacheToFile(this.cacheFile, this.flagCache);
+    if (source !== 'bootstrap') {
+      try {
+        this.options.onUnknownFlag?.(name);
+      } catch (error) {
+        console.error('Phlag: Error in onUnknownFlag callback', error);
+      }
+      if (this.strict) {
+        throw new InvalidFlagError(`Flag not found: ${name}`);
+      }
     }
+
+    return { value: null, source };
   }
 
   /**
-   * Preloads the flag cache without waiting for first request
+   * Checks if the defaults option has a value for a flag
    *
-   * This method immediately fetches all flags from the API and populates
-   * the cache, rather than waiting for the first getFlag() call. Useful
-   * for warming the cache during application startup or deployment.
+   * @param name - The flag name
+   * @returns True if a default is configured
+   */
+  private hasDefault(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.defaults, name);
+  }
+
+  /**
+   * Gets the value to return for a flag after a failed request
    *
-   * Note: This method is a no-op if caching is disabled.
+   * Flags that don't exist fall back to the defaults option. When the server
+   * can't be reached, the bootstrap value is preferred over the default.
    *
-   * @throws {AuthenticationError} When the API key is invalid
-   * @throws {InvalidEnvironmentError} When the environment doesn't exist
-   * @throws {NetworkError} When network communication fails
-   * @throws {PhlagError} For other API errors
+   * @param name - The flag name
+   * @param error - The error thrown by the request
+   * @returns The fallback value and whether it came from the bootstrap or defaults option
+   * @throws The original error when the flag has no fallback value
    */
-  async warmCache(): Promise<void> {
-    if (this.cacheEnabled) {
-      await this.loadCache();
+  private getFallbackValue(name: string, error: unknown): FlagRead {
+    if (error instanceof InvalidFlagError && this.hasDefault(name)) {
+      return { value: this.defaults[name], source: 'default' };
     }
+
+    const flags = this.getFallbackFlags(error);
+    if (!Object.prototype.hasOwnProperty.call(flags, name)) {
+      throw error;
+    }
+
+    const fromBootstrap =
+      this.bootstrap !== null && Object.prototype.hasOwnProperty.call(this.bootstrap, name);
+    return { value: flags[name], source: fromBootstrap ? 'bootstrap' : 'default' };
   }
 
   /**
-   * Clears the in-memory and file cache
+   * Gets the flags to serve when the server can't be reached
    *
-   * This forces a fresh fetch on the next flag request. Useful when you
-   * know flags have been updated on the server and you want an immediate
-   * refresh without waiting for TTL expiration.
+   * Only network failures, server errors (5xx) and an open circuit breaker
+   * fall back. Errors caused by the client's configuration, such as an
+   * invalid API key, are thrown so they aren't hidden.
    *
-   * Note: This method is a no-op if caching is disabled.
+   * @param error - The error thrown by the request
+   * @returns The defaults option merged with the bootstrap option
+   * @throws The original error when it isn't an outage or no fallback is configured
    */
-  async clearCache(): Promise<void> {
-    if (this.cacheEnabled) {
-      this.flagCache = null;
+  private getFallbackFlags(error: unknown): FlagCache {
+    const unavailable = isServerFailure(error) || error instanceof CircuitOpenError;
 
-      if (this.useFileCache) {
-        await deleteCacheFile(this.cacheFile);
-      }
+    if (!unavailable || (this.bootstrap === null && Object.keys(this.defaults).length === 0)) {
+      throw error;
     }
+
+    return { ...this.defaults, ...this.bootstrap };
   }
 
   /**
-   * Checks if caching is enabled
+   * Selects the requested flags from a snapshot
    *
-   * @returns True if caching is enabled
+   * @param flags - All flags for the environment
+   * @param names - The flag names to select
+   * @returns The flags that exist in the snapshot
    */
-  isCacheEnabled(): boolean {
-    return this.cacheEnabled;
+  private pickFlags(flags: FlagCache, names: string[]): Record<string, FlagValue> {
+    const result: Record<string, FlagValue> = {};
+    for (const name of names) {
+      if (flags && Object.prototype.hasOwnProperty.call(flags, name)) {
+        result[name] = flags[name];
+      }
+    }
+
+    return result;
   }
 
   /**
-   * Gets the cache file path
+   * Fetches flags with one request each, limiting how many run at once
    *
-   * This returns the path even if the file doesn't exist yet. The file
-   * will be created on the first cache load when caching is enabled.
+   * Flags that don't exist are left out of the result. Any other error
+   * rejects the whole batch.
    *
-   * @returns The absolute path to the cache file
+   * @param names - The flag names to fetch
+   * @returns The flags that exist, keyed by name
    */
-  getCacheFile(): string {
-    return this.cacheFile;
+  private async fetchFlagsInParallel(names: string[]): Promise<Record<string, FlagValue>> {
+    const result: Record<string, FlagValue> = {};
+    let next = 0;
+
+    const worker = async () => {
+      while (next < names.length) {
+        const name = names[next++];
+        try {
+          result[name] = await this.client.get(`flag/${this.environment}/${name}`);
+        } catch (error) {
+          if (!(error instanceof InvalidFlagError)) {
+            throw error;
+          }
+        }
+      }
+    };
+
+    const workers = Math.max(1, Math.min(this.batchConcurrency, names.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    return result;
+  }
+
+  /**
+   * Returns the in-memory flag cache, loading it if needed
+   *
+   * The cache is loaded lazily on first use and reloaded whenever it is
+   * older than the cache TTL. This applies to both Node.js and browser
+   * environments, so long-running processes pick up flag changes without
+   * a restart.
+   *
+   * In stale-while-revalidate mode, expired data is returned immediately
+   * and a single background refresh is started. If that refresh fails the
+   * last good snapshot keeps being served until it is more than
+   * maxStaleness seconds past its TTL, at which point the refresh blocks
+   * and its errors are thrown to the caller again.
+   *
+   * A snapshot from the bootstrap option is always served while refreshing
+   * in the background, however long the server stays unreachable. Expired
+   * data is also served when the refresh fails because the circuit breaker
+   * is open.
+   *
+   * @returns The cached flags
+   */
+  private async getCachedFlags(): Promise<FlagCache> {
+    return (await this.readCache()).flags;
+  }
+
+  /**
+   * Returns the in-memory flag cache as getCachedFlags() does, whether it
+   * was served without waiting for a load, and where it came from
+   *
+   * Each read is recorded in the cache metrics when telemetry is enabled.
+   *
+   * @returns The cached flags, whether the read was a cache hit, and their source
+   */
+  private async readCache(): Promise<CacheRead> {
+    let hit = true;
+    let source: FlagSource = this.bootstrapped ? 'bootstrap' : 'memory';
+
+    if (this.flagCache === null) {
+      hit = false;
+      source = await this.loadCache();
+    } else if (this.bootstrapped) {
+      this.revalidate();
+    } else if (this.isCacheExpired()) {
+      if (this.staleWhileRevalidate && !this.isCacheTooStale()) {
+        this.revalidate();
+      } else {
+        hit = false;
+        try {
+          source = await this.loadCache();
+        } catch (error) {
+          // The server is known to be down; the last snapshot beats an error
+          if (!(error instanceof CircuitOpenError)) {
+            throw error;
+          }
+        }
+      }
+    }
+
+    this.telemetry.recordCacheLookup(
+      this.environment,
+      hit,
+      this.bootstrapped || this.isCacheExpired(),
+      this.bootstrapped ? undefined : (Date.now() - this.cacheFetchedAt) / 1000
+    );
+
+    return { flags: this.flagCache!, hit, source };
+  }
+
+  /**
+   * Starts a background cache refresh unless one is already running
+   *
+   * Refresh failures are logged but not thrown, leaving the current
+   * snapshot in place.
+   */
+  private revalidate(): void {
+    if (this.refreshPromise !== null) {
+      return;
+    }
+
+    this.refreshPromise = this.loadCache()
+      .then(
+        () => undefined,
+        (error: unknown) => this.reportRefreshError(error)
+      )
+      .finally(() => {
+        this.refreshPromise = null;
+      });
+  }
+
+  /**
+   * Checks if the in-memory cache is older than the cache TTL
+   *
+   * @returns True if the cache needs to be refreshed
+   */
+  private isCacheExpired(): boolean {
+    return this.isExpired(this.cacheFetchedAt);
+  }
+
+  /**
+   * Checks if a snapshot fetched at the given time is older than the cache TTL
+   *
+   * @param fetchedAt - When the snapshot was fetched, in milliseconds since the epoch
+   * @returns True if the snapshot has expired
+   */
+  private isExpired(fetchedAt: number): boolean {
+    return Date.now() - fetchedAt >= this.cacheTtl * 1000;
+  }
+
+  /**
+   * Checks if the in-memory cache is too old to serve while revalidating
+   *
+   * @returns True if the cache is more than maxStaleness seconds past its TTL
+   */
+  private isCacheTooStale(): boolean {
+    return Date.now() - this.cacheFetchedAt >= (this.cacheTtl + this.maxStaleness) * 1000;
+  }
+
+  /**
+   * Loads flag cache from the cache store or API
+   *
+   * This method first checks the cache store (the cache file by default in
+   * Node.js). If it holds a snapshot that hasn't expired, it loads the
+   * cached data. Otherwise, it fetches all flags from the API using the
+   * /all-flags endpoint and writes the snapshot to the store.
+   *
+   * Cache store failures are logged but don't throw exceptions,
+   * allowing graceful degradation to in-memory-only caching.
+   *
+   * Concurrent calls share a single load, so a burst of requests against a
+   * cold or expired cache sends one /all-flags request. A failed load
+   * rejects every caller waiting on it, and the next call starts a new one.
+   *
+   * @returns Whether the flags were read from the cache store or the API
+   */
+  private loadCache(): Promise<'file' | 'network'> {
+    if (this.loadPromise === null) {
+      this.loadPromise = this.readOrFetchCache().finally(() => {
+        this.loadPromise = null;
+      });
+    }
+
+    return this.loadPromise;
+  }
+
+  /**
+   * Loads the flag cache from the cache store, or the API when it is missing
+   * or expired
+   *
+   * When the store supports locking, the API is only called while holding
+   * the store's lock. If another process holds it, the store is checked
+   * again every CACHE_LOCK_POLL_INTERVAL milliseconds until that process
+   * writes a fresh snapshot or releases the lock, giving up and fetching
+   * anyway after the request timeout.
+   *
+   * @returns Whether the flags were read from the cache store or the API
+   */
+  private async readOrFetchCache(): Promise<'file' | 'network'> {
+    const deadline = Date.now() + this.timeout;
+
+    for (;;) {
+      const cached = await this.readCacheStore();
+      if (cached !== null) {
+        this.setFlagCache(cached.flags, cached.fetchedAt);
+        return 'file';
+      }
+
+      const release = await this.lockCacheStore();
+      if (release !== null) {
+        try {
+          // The previous holder may have written a snapshot since the read above
+          const written = this.cacheStore?.lock ? await this.readCacheStore() : null;
+          if (written !== null) {
+            this.setFlagCache(written.flags, written.fetchedAt);
+            return 'file';
+          }
+
+          await this.fetchAllFlags();
+          return 'network';
+        } finally {
+          await release();
+        }
+      }
+
+      if (Date.now() >= deadline) {
+        break;
+      }
+      await sleep(CACHE_LOCK_POLL_INTERVAL);
+    }
+
+    // The lock holder didn't finish in time - fetch from API
+    await this.fetchAllFlags();
+    return 'network';
+  }
+
+  /**
+   * Fetches all flags from the API and replaces the in-memory cache
+   *
+   * The cache store is bypassed for reading but updated with the result,
+   * so other processes see the fresh data.
+   */
+  private async fetchAllFlags(): Promise<void> {
+    const flags = await this.fetchAllFlagsFromApi();
+    const fetchedAt = Date.now();
+    this.setFlagCache(flags, fetchedAt);
+
+    if (flags) {
+      await this.writeCacheStore({ flags, fetchedAt });
+    }
+  }
+
+  /**
+   * Reads an unexpired snapshot from the cache store
+   *
+   * When the store can read metadata, it is checked first so expired
+   * snapshots are skipped without reading their flags. Otherwise the entry
+   * is read once and its age checked. Store errors count as a miss.
+   *
+   * @returns The snapshot, or null if there is no store or no fresh snapshot
+   */
+  private async readCacheStore(): Promise<CacheEntry | null> {
+    if (this.cacheStore === null) {
+      return null;
+    }
+
+    try {
+      if (this.cacheStore.getMetadata) {
+        const metadata = await this.cacheStore.getMetadata(this.cacheKey);
+        if (metadata === null || this.isExpired(metadata.fetchedAt)) {
+          return null;
+        }
+      }
+
+      const entry = await this.cacheStore.get(this.cacheKey);
+      return entry !== null && !this.isExpired(entry.fetchedAt) ? entry : null;
+    } catch (error) {
+      console.error('Phlag: Unable to read cache store', error);
+      return null;
+    }
+  }
+
+  /**
+   * Takes the cache store's refresh lock
+   *
+   * Without a store, or with one that doesn't support locking, the refresh
+   * goes ahead unlocked. Lock errors are logged and also go ahead unlocked.
+   *
+   * @returns Releases the lock, or null if another process holds it
+   */
+  private async lockCacheStore(): Promise<(() => Promise<void>) | null> {
+    const unlocked = async () => undefined;
+    if (!this.cacheStore?.lock) {
+      return unlocked;
+    }
+
+    try {
+      return await this.cacheStore.lock(this.cacheKey);
+    } catch (error) {
+      console.error('Phlag: Unable to lock cache store', error);
+      return unlocked;
+    }
+  }
+
+  /**
+   * Writes a snapshot to the cache store, logging failures
+   *
+   * @param entry - The snapshot to store
+   */
+  private async writeCacheStore(entry: CacheEntry): Promise<void> {
+    if (this.cacheStore === null) {
+      return;
+    }
+
+    try {
+      await this.cacheStore.set(this.cacheKey, entry, this.cacheTtl);
+    } catch (error) {
+      console.error('Phlag: Unable to write cache store', error);
+    }
+  }
+
+  /**
+   * Requests all flags from the API and validates them against the schema
+   *
+   * @returns All flags for the environment
+   */
+  private async fetchAllFlagsFromApi(): Promise<FlagCache> {
+    const endpoint = `all-flags/${this.environment}`;
+    const flags = await this.client.get(endpoint, true);
+    this.validateSnapshot(flags);
+    return flags;
+  }
+
+  /**
+   * Reports flags in a snapshot that don't match the schema
+   *
+   * @param flags - All flags for the environment
+   */
+  private validateSnapshot(flags: FlagCache): void {
+    for (const [name, entry] of Object.entries(this.schema)) {
+      if (!entry) {
+        continue;
+      }
+
+      if (!flags || !Object.prototype.hasOwnProperty.call(flags, name)) {
+        this.reportSchemaViolation({ name, reason: 'missing', expected: entry.type, value: null });
+      } else if (flags[name] !== null && !matchesFlagType(flags[name], entry.type)) {
+        this.reportSchemaViolation({
+          name,
+          reason: 'type',
+          expected: entry.type,
+          value: flags[name],
+        });
+      }
+    }
+  }
+
+  /**
+   * Reports a schema violation to onSchemaViolation, or logs a warning
+   *
+   * Errors thrown by the callback are logged rather than discarding the
+   * snapshot being validated.
+   *
+   * @param violation - The violation details
+   */
+  private reportSchemaViolation(violation: SchemaViolation): void {
+    if (this.options.onSchemaViolation) {
+      try {
+        this.options.onSchemaViolation(violation);
+      } catch (error) {
+        console.error('Phlag: Error in onSchemaViolation callback', error);
+      }
+    } else {
+      console.warn(
+        `Phlag: Flag ${violation.name} does not match schema (${violation.reason}, expected ${violation.expected})`,
+        violation.value
+      );
+    }
+  }
+
+  /**
+   * Replaces null or wrongly typed values with the schema default
+   *
+   * Flags without a schema entry, or without a declared default, are
+   * returned unchanged.
+   *
+   * @param name - The flag name
+   * @param value - The value from the API or cache
+   * @returns The value to return to the caller
+   */
+  private applySchema(name: string, value: FlagValue): FlagValue {
+    const entry = this.schema[name];
+    if (!entry || entry.default === undefined) {
+      return value;
+    }
+
+    if (value === null || !matchesFlagType(value, entry.type)) {
+      return entry.default;
+    }
+
+    return value;
+  }
+
+  /**
+   * Replaces the in-memory cache and emits change and refresh events
+   *
+   * Change events are only emitted when replacing an existing snapshot,
+   * including a bootstrap snapshot; the initial load emits a refresh event
+   * with no changed flags.
+   *
+   * @param flags - The new flag values
+   * @param fetchedAt - When the flags were fetched, in milliseconds since the epoch
+   */
+  private setFlagCache(flags: FlagCache, fetchedAt: number): void {
+    const previous = this.flagCache;
+    this.flagCache = flags;
+    this.cacheFetchedAt = fetchedAt;
+    this.bootstrapped = false;
+
+    const changed: string[] = [];
+    if (previous !== null) {
+      const names = new Set([...Object.keys(previous), ...Object.keys(flags ?? {})]);
+      for (const name of names) {
+        const oldValue = previous[name] ?? null;
+        const newValue = flags?.[name] ?? null;
+        if (oldValue !== newValue) {
+          changed.push(name);
+          this.events.emit('change', { name, oldValue, newValue });
+        }
+      }
+    }
+
+    this.events.emit('refresh', { flags, changed, fetchedAt });
+  }
+
+  /**
+   * Reports a failed background refresh
+   *
+   * The error is emitted as an `error` event, or logged when nothing is
+   * listening for errors.
+   *
+   * @param error - The error thrown by the refresh
+   */
+  private reportRefreshError(error: unknown): void {
+    const err =
+      error instanceof Error ? error : new PhlagError(`Unknown refresh error: ${String(error)}`);
+
+    if (!this.events.emit('error', err)) {
+      console.error('Phlag: Unable to refresh flag cache', err.message);
+    }
+  }
+
+  /**
+   * Starts background updates of the flag cache
+   *
+   * With streaming enabled, a Server-Sent Events connection is opened to
+   * /stream/{environment} and pushed updates are applied to the in-memory
+   * cache as they arrive (see applyStreamEvent() for the event format).
+   * Dropped connections are reopened with exponential backoff, and all
+   * flags are refetched each time the stream opens so updates missed while
+   * disconnected aren't lost. If the server doesn't offer the stream
+   * (404, 405 or 501), the client falls back to polling.
+   *
+   * Otherwise, every pollInterval seconds all flags are refetched from the
+   * API. Polls never overlap: the next one is scheduled after the previous
+   * one finishes.
+   *
+   * When caching is enabled and the cache store reports changes made
+   * elsewhere (as the browser store does for other tabs), snapshots written
+   * by other clients are applied as well, without a request.
+   *
+   * Either way, new values are diffed against the in-memory cache,
+   * emitting `change` and `refresh` events, and failures emit an `error`
+   * event without stopping the updates. Flag reads see new values without
+   * waiting for the cache TTL when caching is enabled.
+   *
+   * Note: This method is a no-op if neither streaming, pollInterval nor a
+   * cache store that reports changes is configured, or updates are already
+   * running.
+   */
+  start(): void {
+    if (this.isRunning()) {
+      return;
+    }
+
+    if (this.cacheStore?.subscribe) {
+      this.unsubscribeStore = this.cacheStore.subscribe(this.cacheKey, (entry) =>
+        this.applyStoreEntry(entry)
+      );
+    }
+
+    if (this.streamEnabled) {
+      const controller = new AbortController();
+      this.streamController = controller;
+      void this.runStream(controller.signal);
+    } else if (this.pollInterval > 0) {
+      this.schedulePoll();
+    }
+  }
+
+  /**
+   * Stops background updates of the flag cache
+   *
+   * The stream is closed, pending timers are cleared so the process can
+   * exit, and cache store changes are no longer applied. A poll that is
+   * already in flight completes, but no further polls are scheduled.
+   */
+  stop(): void {
+    if (this.unsubscribeStore !== null) {
+      this.unsubscribeStore();
+      this.unsubscribeStore = null;
+    }
+
+    if (this.streamController !== null) {
+      this.streamController.abort();
+      this.streamController = null;
+    }
+
+    if (this.pollTimer !== null) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Checks if background updates are running
+   *
+   * @returns True if start() has been called and stop() has not
+   */
+  isRunning(): boolean {
+    return (
+      this.pollTimer !== null || this.streamController !== null || this.unsubscribeStore !== null
+    );
+  }
+
+  /**
+   * Applies a snapshot another client wrote to the cache store
+   *
+   * Snapshots older than the one in memory are ignored, as are removals:
+   * the current snapshot keeps being served until it expires.
+   *
+   * @param entry - The snapshot from the store, or null if it was removed
+   */
+  private applyStoreEntry(entry: CacheEntry | null): void {
+    if (entry === null || (!this.bootstrapped && entry.fetchedAt <= this.cacheFetchedAt)) {
+      return;
+    }
+
+    this.validateSnapshot(entry.flags);
+    this.setFlagCache(entry.flags, entry.fetchedAt);
+  }
+
+  /**
+   * Schedules the next poll
+   *
+   * Each timer reschedules itself only if it is still the current timer,
+   * so stopping and restarting never leaves two polling loops running.
+   * When polling as a fallback for streaming without a pollInterval, polls
+   * run every 30 seconds.
+   */
+  private schedulePoll(): void {
+    const interval = this.pollInterval > 0 ? this.pollInterval : 30;
+
+    const timer = setTimeout(async () => {
+      try {
+        await this.fetchAllFlags();
+      } catch (error) {
+        this.reportRefreshError(error);
+      }
+
+      if (this.pollTimer === timer) {
+        this.schedulePoll();
+      }
+    }, interval * 1000);
+
+    this.pollTimer = timer;
+  }
+
+  /**
+   * Keeps the flag stream connected until the signal is aborted
+   *
+   * The reconnect backoff only starts over once a connection has delivered
+   * an event or stayed open for STREAM_STABLE_AFTER, so a server that
+   * accepts the stream and drops it straight away is still backed off.
+   * Servers without streaming, including ones that answer with something
+   * other than an event stream, fall back to polling.
+   *
+   * @param signal - Aborted by stop() to close the stream
+   */
+  private async runStream(signal: AbortSignal): Promise<void> {
+    const endpoint = `stream/${this.environment}`;
+    let attempt = 0;
+
+    while (!signal.aborted) {
+      let openedAt: number | null = null;
+      try {
+        await this.client.stream(
+          endpoint,
+          {
+            onOpen: () => {
+              openedAt = Date.now();
+              // Catch up on updates missed while disconnected
+              this.fetchAllFlags().catch((error: unknown) => this.reportRefreshError(error));
+            },
+            onEvent: (event) => {
+              attempt = 0;
+              this.applyStreamEvent(event);
+            },
+          },
+          signal
+        );
+      } catch (error) {
+        if (error instanceof PhlagError && [404, 405, 406, 501].includes(error.code ?? 0)) {
+          console.warn('Phlag: Flag stream unavailable, falling back to polling', error.message);
+          if (this.streamController?.signal === signal) {
+            this.streamController = null;
+            this.schedulePoll();
+          }
+          return;
+        }
+
+        this.reportRefreshError(error);
+      }
+
+      if (openedAt !== null && Date.now() - openedAt >= STREAM_STABLE_AFTER) {
+        attempt = 0;
+      }
+
+      await sleep(
+        backoffDelay(attempt++, this.streamReconnectDelay, this.streamMaxReconnectDelay),
+        signal
+      );
+    }
+  }
+
+  /**
+   * Applies an event pushed over the flag stream to the in-memory cache
+   *
+   * Two event types are understood, both with JSON data:
+   *
+   * - `flag` (or unnamed events): `{"name": "feature_x", "value": true}`
+   *   updates a single flag
+   * - `flags`: an object of all flags, like the /all-flags response,
+   *   replaces the whole snapshot
+   *
+   * Single flag updates are ignored until a full snapshot has been loaded
+   * from the server, since the cache would otherwise hold only part of the
+   * environment, or a bootstrap snapshot that is about to be replaced.
+   * Other event types are ignored.
+   *
+   * @param event - The event received from the stream
+   */
+  private applyStreamEvent(event: ServerSentEvent): void {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(event.data);
+    } catch {
+      console.error('Phlag: Unable to parse flag stream event', event.data);
+      return;
+    }
+
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      return;
+    }
+
+    if (event.event === 'flags') {
+      this.validateSnapshot(payload as FlagCache);
+      this.setFlagCache(payload as FlagCache, Date.now());
+    } else if (event.event === 'flag' || event.event === 'message') {
+      const update = payload as { name?: unknown; value?: FlagValue };
+      if (typeof update.name === 'string' && this.flagCache !== null && !this.bootstrapped) {
+        this.setFlagCache(
+          { ...this.flagCache, [update.name]: update.value ?? null },
+          this.cacheFetchedAt
+        );
+      }
+    }
+  }
+
+  /**
+   * Registers a listener for a client event
+   *
+   * - `change` is emitted for each flag whose value changed in a refresh
+   * - `refresh` is emitted whenever a new snapshot replaces the cache
+   * - `error` is emitted when a background refresh, poll or stream fails
+   *
+   * @param event - The event name
+   * @param listener - Called with the event payload
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof PhlagClientEvents>(
+    event: K,
+    listener: EventListener<PhlagClientEvents[K]>
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Removes a previously registered event listener
+   *
+   * @param event - The event name
+   * @param listener - The listener to remove
+   */
+  off<K extends keyof PhlagClientEvents>(
+    event: K,
+    listener: EventListener<PhlagClientEvents[K]>
+  ): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Preloads the flag cache without waiting for first request
+   *
+   * This method immediately fetches all flags from the API and populates
+   * the cache, rather than waiting for the first getFlag() call. Useful
+   * for warming the cache during application startup or deployment.
+   *
+   * Note: This method is a no-op if caching is disabled.
+   *
+   * @throws {AuthenticationError} When the API key is invalid
+   * @throws {InvalidEnvironmentError} When the environment doesn't exist
+   * @throws {NetworkError} When network communication fails
+   * @throws {PhlagError} For other API errors
+   */
+  async warmCache(): Promise<void> {
+    if (this.cacheEnabled) {
+      await this.loadCache();
+    }
+  }
+
+  /**
+   * Clears the in-memory cache and the cache store entry
+   *
+   * This forces a fresh fetch on the next flag request. Useful when you
+   * know flags have been updated on the server and you want an immediate
+   * refresh without waiting for TTL expiration.
+   *
+   * Note: This method is a no-op if caching is disabled.
+   */
+  async clearCache(): Promise<void> {
+    if (this.cacheEnabled) {
+      this.flagCache = null;
+      this.cacheFetchedAt = 0;
+      this.bootstrapped = false;
+
+      if (this.cacheStore !== null) {
+        try {
+          await this.cacheStore.delete(this.cacheKey);
+        } catch (error) {
+          console.error('Phlag: Unable to clear cache store', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks if caching is enabled
+   *
+   * @returns True if caching is enabled
+   */
+  isCacheEnabled(): boolean {
+    return this.cacheEnabled;
+  }
+
+  /**
+   * Gets the cache file path
+   *
+   * This returns the path even if the file doesn't exist yet. The file
+   * will be created on the first cache load when caching is enabled and no
+   * cacheStore is configured.
+   *
+   * The path is worked out on first use, since it needs Node.js modules;
+   * clients with a cacheStore or running in a browser never compute it
+   * unless this is called.
+   *
+   * @returns The absolute path to the cache file
+   */
+  getCacheFile(): string {
+    this.cacheFile ??= generateCacheFilename(
+      this.baseUrl,
+      this.environment,
+      this.options.cacheFile,
+      this.options.cacheDir
+    );
+    return this.cacheFile;
+  }
+
+  /**
+   * Gets the state of the circuit breaker
+   *
+   * Useful for health checks: `open` means requests to the Phlag server are
+   * currently failing fast.
+   *
+   * @returns The breaker state, always `closed` when the circuitBreaker option isn't set
+   */
+  getCircuitState(): CircuitState {
+    return this.client.getCircuitState();
+  }
+
+  /**
+   * Compares flag reads with the flags on the server
+   *
+   * Requires the trackUsage option. Every flag name passed to getFlag(),
+   * isEnabled(), the typed accessors or getFlags() is counted, whether or
+   * not the read succeeds. The counts are compared with a fresh
+   * /all-flags/{environment} response, never the cache or fallback values,
+   * to list flags that are never read and names that don't exist on the
+   * server.
+   *
+   * The report is plain data, so a running service can expose it with
+   * JSON.stringify(), for example from an admin endpoint.
+   *
+   * @returns The usage report
+   * @throws {PhlagError} When the trackUsage option isn't set
+   * @throws {AuthenticationError} When the API key is invalid
+   * @throws {InvalidEnvironmentError} When the environment doesn't exist
+   * @throws {NetworkError} When network communication fails
+   */
+  async getUsageReport(): Promise<FlagUsageReport> {
+    if (this.usage === null) {
+      throw new PhlagError('Usage tracking is disabled, set the trackUsage option');
+    }
+
+    const flags = await this.fetchAllFlagsFromApi();
+    return this.usage.report(this.environment, Object.keys(flags ?? {}));
+  }
+
+  /**
+   * Clears the read counts collected for getUsageReport()
+   *
+   * Note: This method is a no-op if the trackUsage option isn't set.
+   */
+  resetUsage(): void {
+    this.usage?.reset();
   }
 
   /**
@@ -0,0 +1,57 @@
+/**
+ * Utilities for retrying with exponential backoff
+ */
+
+/**
+ * Calculates the delay before a retry attempt
+ *
+ * The delay doubles with each attempt, starting at baseDelay and capped at
+ * maxDelay. With jitter enabled, a random delay between zero and the
+ * calculated value is used instead ("full jitter"), which keeps a fleet of
+ * clients from reconnecting in lockstep after an outage.
+ *
+ * @param attempt - Zero-based retry attempt number
+ * @param baseDelay - Delay for the first retry in milliseconds
+ * @param maxDelay - Upper bound for the delay in milliseconds
+ * @param jitter - Randomize the delay (default: true)
+ * @returns The delay in milliseconds
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number,
+  jitter: boolean = true
+): number {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Waits for the given number of milliseconds
+ *
+ * Resolves early, without throwing, when the signal is aborted so callers
+ * can check the signal and exit their retry loop.
+ *
+ * @param ms - Time to wait in milliseconds
+ * @param signal - Optional signal that cancels the wait
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
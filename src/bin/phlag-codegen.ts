@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+import { runCodegen } from '../codegen.js';
+
+runCodegen(process.argv.slice(2), process.env, {
+  stdout: (message) => console.log(message),
+  stderr: (message) => console.error(message),
+}).then((code) => {
+  process.exitCode = code;
+});
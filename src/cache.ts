@@ -1,4 +1,6 @@
-import type { FlagCache } from './types.js';
+import type { FlagCache, CacheEntry } from './types.js';
+import { PhlagError } from './exceptions/index.js';
+import { CLIENT_VERSION } from './version.js';
 
 // Declare Node.js globals for TypeScript
 declare const process: {
@@ -8,137 +10,552 @@ declare const process: {
   };
 };
 
+interface NodeBuffer extends Uint8Array {
+  toString(encoding?: string): string;
+}
+
+declare function require(module: 'buffer'): {
+  Buffer: {
+    from: (data: string, encoding: string) => NodeBuffer;
+    concat: (list: Uint8Array[]) => NodeBuffer;
+  };
+};
+
 declare function require(module: 'crypto'): {
   createHash: (algorithm: string) => {
     update: (data: string) => {
-      digest: (encoding: string) => string;
+      digest(): NodeBuffer;
+      digest(encoding: string): string;
     };
   };
+  randomBytes: (size: number) => NodeBuffer;
+  createCipheriv: (
+    algorithm: string,
+    key: Uint8Array,
+    iv: Uint8Array
+  ) => {
+    setAAD: (data: Uint8Array) => void;
+    update: (data: string, encoding: string) => NodeBuffer;
+    final: () => NodeBuffer;
+    getAuthTag: () => NodeBuffer;
+  };
+  createDecipheriv: (
+    algorithm: string,
+    key: Uint8Array,
+    iv: Uint8Array
+  ) => {
+    setAAD: (data: Uint8Array) => void;
+    setAuthTag: (tag: Uint8Array) => void;
+    update: (data: Uint8Array) => NodeBuffer;
+    final: () => NodeBuffer;
+  };
+};
+
+declare function require(module: 'path'): {
+  basename: (path: string) => string;
+  dirname: (path: string) => string;
+  join: (...paths: string[]) => string;
 };
 
 declare function require(module: 'os'): {
   tmpdir: () => string;
 };
 
+interface FileHandle {
+  writeFile: (data: string, encoding: string) => Promise<void>;
+  chmod: (mode: number) => Promise<void>;
+  sync: () => Promise<void>;
+  close: () => Promise<void>;
+}
+
 declare function require(module: 'fs/promises'): {
   stat: (path: string) => Promise<{ mtimeMs: number }>;
   readFile: (path: string, encoding: string) => Promise<string>;
   writeFile: (path: string, data: string, encoding: string) => Promise<void>;
   unlink: (path: string) => Promise<void>;
+  open: (path: string, flags: string, mode?: number) => Promise<FileHandle>;
+  rename: (oldPath: string, newPath: string) => Promise<void>;
+  readdir: (path: string) => Promise<string[]>;
 };
 
 /**
  * Utilities for file-based caching in Node.js
  *
  * These functions are only available in Node.js environments. In browser
- * environments, the PhlagClient will use in-memory caching only.
+ * environments, the PhlagClient persists its cache with a BrowserCacheStore.
+ */
+
+/**
+ * Generates the cache store key for a base URL and environment
+ *
+ * parseCacheKey() reverses this.
+ *
+ * @param baseUrl - The Phlag server base URL
+ * @param environment - The environment name
+ * @returns The cache key
  */
+export function generateCacheKey(baseUrl: string, environment: string): string {
+  return `${baseUrl}|${environment}`;
+}
 
 /**
  * Generates a cache filename based on base URL and environment
  *
  * The filename is generated using an MD5 hash of the base URL and
  * environment name to ensure uniqueness across different Phlag servers
- * and environments. The file is placed in the system temp directory.
+ * and environments. The file is placed in the given directory, or the
+ * system temp directory.
  *
  * @param baseUrl - The Phlag server base URL
  * @param environment - The environment name
  * @param customPath - Optional custom cache file path
+ * @param directory - Optional directory for the generated file
  * @returns The absolute path to the cache file
  */
 export function generateCacheFilename(
   baseUrl: string,
   environment: string,
-  customPath?: string
+  customPath?: string,
+  directory?: string
 ): string {
   if (customPath) {
     return customPath;
   }
 
+  return cacheFilenameForKey(generateCacheKey(baseUrl, environment), directory);
+}
+
+/**
+ * Generates a cache filename for a cache store key
+ *
+ * @param key - The cache key
+ * @param directory - Directory for the file (default: the system temp directory)
+ * @returns The path to the cache file
+ */
+export function cacheFilenameForKey(key: string, directory?: string): string {
   // Lazy load Node.js modules
   const crypto = require('crypto');
   const os = require('os');
 
-  const hash = crypto.createHash('md5').update(`${baseUrl}|${environment}`).digest('hex');
-  return `${os.tmpdir()}/phlag_cache_${hash}.json`;
+  const hash = crypto.createHash('md5').update(key).digest('hex');
+  return `${directory ?? os.tmpdir()}/phlag_cache_${hash}.json`;
+}
+
+/**
+ * The server and environment a cache file belongs to
+ */
+export interface CacheIdentity {
+  /**
+   * The Phlag server base URL
+   */
+  baseUrl: string;
+
+  /**
+   * The environment name
+   */
+  environment: string;
+}
+
+const CACHE_FORMAT = 'phlag-cache';
+
+/**
+ * The on-disk cache format
+ *
+ * The flags are wrapped with what the loader needs to trust them: when
+ * they were fetched (file modification times don't survive copies and
+ * restores, and differ between hosts), which server and environment they
+ * belong to, and a checksum of the flags.
+ */
+interface CacheEnvelope {
+  format: typeof CACHE_FORMAT;
+  version: number;
+  fetchedAt: number;
+  environment: string;
+  baseUrlHash: string;
+  clientVersion: string;
+  checksum: string;
+  flags: FlagCache;
+}
+
+/**
+ * The envelope version written by this client; files with a newer version
+ * are rejected
+ */
+export const CACHE_FORMAT_VERSION = 1;
+
+/**
+ * How far in the future, in milliseconds, a fetch time may be before the
+ * file is rejected as written by a host with a skewed clock
+ */
+const MAX_CLOCK_SKEW = 60000;
+
+/**
+ * Splits a cache key from generateCacheKey() into its base URL and
+ * environment
+ *
+ * @param key - The cache key
+ * @returns The base URL and environment
+ */
+export function parseCacheKey(key: string): CacheIdentity {
+  const separator = key.lastIndexOf('|');
+  return { baseUrl: key.slice(0, separator), environment: key.slice(separator + 1) };
+}
+
+/**
+ * Hashes a string with SHA-256
+ *
+ * @param data - The string to hash
+ * @returns The hex digest
+ */
+function sha256(data: string): string {
+  const crypto = require('crypto');
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Wraps a snapshot in the on-disk envelope
+ *
+ * @param entry - The snapshot
+ * @param identity - The server and environment it belongs to
+ * @returns The envelope
+ */
+export function createCacheEnvelope(entry: CacheEntry, identity: CacheIdentity): CacheEnvelope {
+  return {
+    format: CACHE_FORMAT,
+    version: CACHE_FORMAT_VERSION,
+    fetchedAt: entry.fetchedAt,
+    environment: identity.environment,
+    baseUrlHash: sha256(identity.baseUrl),
+    clientVersion: CLIENT_VERSION,
+    checksum: sha256(JSON.stringify(entry.flags)),
+    flags: entry.flags,
+  };
+}
+
+/**
+ * Checks if parsed cache file contents are an envelope rather than a
+ * legacy bare flag object
+ *
+ * @param data - The parsed file contents
+ * @returns True if the data claims to be an envelope
+ */
+function isCacheEnvelope(data: Record<string, unknown>): boolean {
+  return data.format === CACHE_FORMAT && typeof data.version === 'number';
+}
+
+/**
+ * Checks whether parsed file contents are a legacy bare flag object
+ *
+ * Anything with a `format` key is a damaged or unknown envelope rather
+ * than flags, and flag values are never objects or arrays.
+ *
+ * @param data - The parsed file contents
+ * @returns Whether the contents can be read as flags
+ */
+function isLegacyFlagFile(data: Record<string, unknown>): boolean {
+  return (
+    !Object.prototype.hasOwnProperty.call(data, 'format') &&
+    Object.values(data).every(
+      (value) =>
+        value === null ||
+        typeof value === 'boolean' ||
+        typeof value === 'number' ||
+        typeof value === 'string'
+    )
+  );
+}
+
+/**
+ * Validates an envelope and unwraps its snapshot
+ *
+ * Envelopes are rejected when their version is newer than this client
+ * understands, they belong to another environment or server, their fetch
+ * time is missing or in the future, or their flags don't match the
+ * checksum.
+ *
+ * @param data - The parsed envelope
+ * @param identity - The server and environment the caller expects
+ * @returns The snapshot, or null if the envelope was rejected
+ */
+function openCacheEnvelope(
+  data: Partial<CacheEnvelope>,
+  identity: CacheIdentity
+): CacheEntry | null {
+  const { version, fetchedAt, flags } = data;
+
+  if (
+    typeof version !== 'number' ||
+    version > CACHE_FORMAT_VERSION ||
+    data.environment !== identity.environment ||
+    data.baseUrlHash !== sha256(identity.baseUrl) ||
+    typeof fetchedAt !== 'number' ||
+    fetchedAt > Date.now() + MAX_CLOCK_SKEW ||
+    typeof flags !== 'object' ||
+    flags === null ||
+    Array.isArray(flags) ||
+    data.checksum !== sha256(JSON.stringify(flags))
+  ) {
+    return null;
+  }
+
+  return { flags, fetchedAt };
+}
+
+/**
+ * An encrypted cache file
+ *
+ * The envelope is encrypted with AES-256-GCM, which also authenticates it:
+ * a file edited or written without the key fails to decrypt.
+ */
+interface EncryptedCacheFile {
+  format: typeof ENCRYPTED_CACHE_FORMAT;
+  version: number;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const ENCRYPTED_CACHE_FORMAT = 'phlag-cache-encrypted';
+
+/**
+ * Options for reading and writing cache files
+ */
+export interface CacheFileOptions {
+  /**
+   * Flush the file to disk before renaming it into place, so a crash
+   * can't leave an empty or partial cache file (default: false)
+   */
+  fsync?: boolean;
+
+  /**
+   * Permissions for new cache files (default: 0o600, owner only)
+   */
+  mode?: number;
+
+  /**
+   * 32-byte AES-256-GCM key from resolveEncryptionKey(). When set, files
+   * are encrypted and unencrypted files are rejected.
+   */
+  encryptionKey?: Uint8Array;
+}
+
+/**
+ * Turns the cacheEncryptionKey option into an AES-256 key
+ *
+ * Byte arrays are used as the key and must be 32 bytes long. Strings are
+ * hashed with SHA-256, so they should be long random secrets rather than
+ * memorable passwords.
+ *
+ * @param key - The key or secret
+ * @returns The 32-byte key
+ * @throws {PhlagError} When a byte array key isn't 32 bytes long
+ */
+export function resolveEncryptionKey(key: string | Uint8Array): Uint8Array {
+  if (typeof key === 'string') {
+    const crypto = require('crypto');
+    return crypto.createHash('sha256').update(key).digest();
+  }
+
+  if (key.length !== 32) {
+    throw new PhlagError(`Cache encryption key must be 32 bytes, got ${key.length}`);
+  }
+
+  return key;
+}
+
+/**
+ * Encrypts serialized cache file contents
+ *
+ * @param contents - The serialized envelope
+ * @param key - The 32-byte key
+ * @returns The encrypted file
+ */
+function encryptCacheFile(contents: string, key: Uint8Array): EncryptedCacheFile {
+  const crypto = require('crypto');
+  const { Buffer } = require('buffer');
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(`${ENCRYPTED_CACHE_FORMAT}:${CACHE_FORMAT_VERSION}`, 'utf-8'));
+  const data = Buffer.concat([cipher.update(contents, 'utf-8'), cipher.final()]);
+
+  return {
+    format: ENCRYPTED_CACHE_FORMAT,
+    version: CACHE_FORMAT_VERSION,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Decrypts an encrypted cache file
+ *
+ * @param file - The parsed encrypted file
+ * @param key - The 32-byte key
+ * @returns The serialized envelope
+ * @throws {Error} When the key is wrong or the file was modified
+ */
+function decryptCacheFile(file: Partial<EncryptedCacheFile>, key: Uint8Array): string {
+  const crypto = require('crypto');
+  const { Buffer } = require('buffer');
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    key,
+    Buffer.from(String(file.iv), 'base64')
+  );
+  decipher.setAAD(Buffer.from(`${file.format}:${file.version}`, 'utf-8'));
+  decipher.setAuthTag(Buffer.from(String(file.tag), 'base64'));
+
+  const data = Buffer.from(String(file.data), 'base64');
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf-8');
 }
 
 /**
  * Loads flag cache from file
  *
- * Reads the cache file and checks if it's still valid based on TTL.
- * Returns null if the file doesn't exist, is expired, or contains invalid data.
+ * Reads the cache file envelope and checks that it belongs to the expected
+ * server and environment, is intact, and is still valid based on TTL.
+ * Returns null if the file doesn't exist, is expired, or is rejected.
+ *
+ * With an encryption key, the file must be encrypted with that key;
+ * unencrypted, tampered and differently keyed files are rejected. Without
+ * one, encrypted files are rejected.
+ *
+ * Legacy files holding a bare flag object use the file's modification time
+ * as their fetch time, and are rewritten as an envelope when still fresh.
+ * Other contents, such as a damaged envelope, are rejected rather than
+ * read as flags.
  *
  * @param cacheFile - Path to the cache file
  * @param cacheTtl - Cache time-to-live in seconds
- * @returns The cached flags or null if cache is invalid/expired
+ * @param identity - The server and environment the cache belongs to
+ * @param options - How the file is written, used when migrating legacy files
+ * @returns The cached flags and fetch time, or null if cache is invalid/expired
  */
 export async function loadCacheFromFile(
   cacheFile: string,
-  cacheTtl: number
-): Promise<FlagCache | null> {
+  cacheTtl: number,
+  identity: CacheIdentity,
+  options: CacheFileOptions = {}
+): Promise<CacheEntry | null> {
+  let entry: CacheEntry;
+  let legacy = false;
+
   try {
     const fs = require('fs/promises');
 
-    const stats = await fs.stat(cacheFile);
-    const mtime = stats.mtimeMs;
-    const now = Date.now();
+    const contents = await fs.readFile(cacheFile, 'utf-8');
+    let data = JSON.parse(contents);
 
-    // Check if cache is expired
-    if (now - mtime >= cacheTtl * 1000) {
+    // Validate that we got an object
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
       return null;
     }
 
-    const contents = await fs.readFile(cacheFile, 'utf-8');
-    const data = JSON.parse(contents);
-
-    // Validate that we got an object
-    if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
-      return data as FlagCache;
+    if (options.encryptionKey) {
+      if (data.format !== ENCRYPTED_CACHE_FORMAT || data.version > CACHE_FORMAT_VERSION) {
+        return null;
+      }
+      data = JSON.parse(decryptCacheFile(data, options.encryptionKey));
+      if (typeof data !== 'object' || data === null || !isCacheEnvelope(data)) {
+        return null;
+      }
+    } else if (data.format === ENCRYPTED_CACHE_FORMAT) {
+      return null;
     }
 
-    return null;
+    if (isCacheEnvelope(data)) {
+      const opened = openCacheEnvelope(data, identity);
+      if (opened === null) {
+        return null;
+      }
+      entry = opened;
+    } else if (isLegacyFlagFile(data)) {
+      const stats = await fs.stat(cacheFile);
+      entry = { flags: data as FlagCache, fetchedAt: stats.mtimeMs };
+      legacy = true;
+    } else {
+      return null;
+    }
   } catch {
     // File doesn't exist or is not readable
     return null;
   }
+
+  // Check if cache is expired
+  if (Date.now() - entry.fetchedAt >= cacheTtl * 1000) {
+    return null;
+  }
+
+  if (legacy) {
+    await writeCacheToFile(cacheFile, entry, identity, options);
+  }
+
+  return entry;
 }
 
+/**
+ * How old, in milliseconds, a temporary file must be before it is treated
+ * as left behind by a crashed writer
+ */
+const ORPHANED_TEMP_FILE_AGE = 60000;
+
 /**
  * Writes flag cache to file using atomic write operation
  *
- * Uses a temporary file and rename to ensure atomic writes on POSIX systems,
- * preventing partial writes during concurrent access. Write failures are
- * caught silently to allow graceful degradation.
+ * The snapshot is wrapped in a versioned envelope (see loadCacheFromFile()),
+ * encrypted when a key is given, and written to a uniquely named temporary
+ * file with the requested permissions, which is then renamed over the
+ * cache file. Readers in other processes see either the old file or the
+ * new one, never a missing or partial file. Temporary files older than a
+ * minute, left behind by writers that crashed before renaming, are removed
+ * first. Write failures are caught silently to allow graceful degradation.
  *
  * @param cacheFile - Path to the cache file
- * @param data - The flag cache data to write
+ * @param entry - The flag snapshot to write
+ * @param identity - The server and environment it belongs to
+ * @param options - Write options
  */
-export async function writeCacheToFile(cacheFile: string, data: FlagCache): Promise<void> {
+export async function writeCacheToFile(
+  cacheFile: string,
+  entry: CacheEntry,
+  identity: CacheIdentity,
+  options: CacheFileOptions = {}
+): Promise<void> {
+  const fs = require('fs/promises');
+  const crypto = require('crypto');
+  const tempFile = `${cacheFile}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+
   try {
-    const fs = require('fs/promises');
-    const tempFile = `${cacheFile}.${process.pid}.tmp`;
-    const contents = JSON.stringify(data);
+    await removeOrphanedTempFiles(cacheFile);
 
-    await fs.writeFile(tempFile, contents, 'utf-8');
+    const mode = options.mode ?? 0o600;
+    let contents = JSON.stringify(createCacheEnvelope(entry, identity));
+    if (options.encryptionKey) {
+      contents = JSON.stringify(encryptCacheFile(contents, options.encryptionKey));
+    }
 
-    // Atomic rename (POSIX systems)
-    // On Windows, this might fail if the file exists, so we use a try/catch
+    const handle = await fs.open(tempFile, 'w', mode);
     try {
-      await fs.unlink(cacheFile);
-    } catch {
-      // File might not exist yet
+      // The umask applies to open() but not chmod()
+      await handle.chmod(mode);
+      await handle.writeFile(contents, 'utf-8');
+      if (options.fsync) {
+        await handle.sync();
+      }
+    } finally {
+      await handle.close();
     }
 
-    await fs.writeFile(cacheFile, contents, 'utf-8');
-
-    // Clean up temp file
+    // Atomic on POSIX; on Windows, Node.js replaces the existing file too
+    await fs.rename(tempFile, cacheFile);
+  } catch (error) {
     try {
       await fs.unlink(tempFile);
     } catch {
-      // Temp file might have been used in rename
+      // Temp file was never created
     }
-  } catch (error) {
+
     // Log error but don't throw - allow graceful degradation
     if (error instanceof Error) {
       console.error(`Phlag: Unable to write cache file: ${cacheFile}`, error.message);
@@ -146,6 +563,106 @@ export async function writeCacheToFile(cacheFile: string, data: FlagCache): Prom
   }
 }
 
+/**
+ * Removes temporary files left next to the cache file by writers that
+ * crashed before renaming them
+ *
+ * Recent temporary files may belong to a write in progress in another
+ * process, so only files older than a minute are removed.
+ *
+ * @param cacheFile - Path to the cache file
+ */
+export async function removeOrphanedTempFiles(cacheFile: string): Promise<void> {
+  const fs = require('fs/promises');
+  const path = require('path');
+  const directory = path.dirname(cacheFile);
+  const prefix = `${path.basename(cacheFile)}.`;
+
+  let names: string[];
+  try {
+    names = await fs.readdir(directory);
+  } catch {
+    return;
+  }
+
+  for (const name of names) {
+    if (!name.startsWith(prefix) || !name.endsWith('.tmp')) {
+      continue;
+    }
+
+    const tempFile = path.join(directory, name);
+    try {
+      const stats = await fs.stat(tempFile);
+      if (Date.now() - stats.mtimeMs >= ORPHANED_TEMP_FILE_AGE) {
+        await fs.unlink(tempFile);
+      }
+    } catch {
+      // Renamed or removed by its writer in the meantime
+    }
+  }
+}
+
+/**
+ * Takes the advisory lock for a cache file
+ *
+ * The lock is a `<cacheFile>.lock` file created exclusively, so only one
+ * process can hold it. A lock older than staleAfter milliseconds is assumed
+ * to belong to a crashed process and is broken. Locking is cooperative:
+ * it only coordinates clients that take the lock before refreshing.
+ *
+ * @param cacheFile - Path to the cache file
+ * @param staleAfter - Milliseconds after which a held lock is broken
+ * @returns Releases the lock, or null if another process holds it
+ * @throws {Error} When the lock file can't be created, for example because the directory isn't writable
+ */
+export async function acquireCacheLock(
+  cacheFile: string,
+  staleAfter: number
+): Promise<(() => Promise<void>) | null> {
+  const fs = require('fs/promises');
+  const crypto = require('crypto');
+  const lockFile = `${cacheFile}.lock`;
+  const token = `${process.pid}:${crypto.randomBytes(8).toString('hex')}`;
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const handle = await fs.open(lockFile, 'wx', 0o600);
+      try {
+        await handle.writeFile(token, 'utf-8');
+      } finally {
+        await handle.close();
+      }
+
+      return async () => {
+        try {
+          // Leave the lock alone if it was broken and taken by another process
+          if ((await fs.readFile(lockFile, 'utf-8')) === token) {
+            await fs.unlink(lockFile);
+          }
+        } catch {
+          // Already removed
+        }
+      };
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    try {
+      const stats = await fs.stat(lockFile);
+      if (Date.now() - stats.mtimeMs < staleAfter) {
+        return null;
+      }
+      await fs.unlink(lockFile);
+    } catch {
+      // Released in the meantime; try again
+    }
+  }
+
+  return null;
+}
+
 /**
  * Deletes the cache file
  *
@@ -170,3 +687,12 @@ export function isNodeEnvironment(): boolean {
     typeof process !== 'undefined' && process.versions != null && process.versions.node != null
   );
 }
+
+/**
+ * Checks if we're running in a browser
+ *
+ * @returns True if running in a browser window
+ */
+export function isBrowserEnvironment(): boolean {
+  return typeof window !== 'undefined' && typeof window.document !== 'undefined';
+}
@@ -0,0 +1,417 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { Client } from './Client.js';
+import { PhlagError } from './exceptions/index.js';
+import type { FlagCache, FlagType, FlagValue } from './types.js';
+
+/**
+ * Code generator for typed flag modules
+ *
+ * Fetches the flags of one or more environments, infers each flag's type
+ * from its values and writes a TypeScript module with a flags interface,
+ * a constant of flag names and typed wrapper functions. This is the
+ * implementation behind the phlag-codegen command.
+ */
+
+/**
+ * Options for generating a flag module
+ */
+export interface GenerateOptions {
+  /**
+   * Module the generated file imports PhlagClient from
+   * (default: '@moonspot/phlag-client')
+   */
+  importFrom?: string;
+
+  /**
+   * Name of the generated flags interface (default: 'PhlagFlags')
+   */
+  interfaceName?: string;
+}
+
+/**
+ * TypeScript value types for each flag type
+ */
+const TS_TYPES: Record<FlagType, string> = {
+  SWITCH: 'boolean',
+  INTEGER: 'number',
+  FLOAT: 'number',
+  STRING: 'string',
+};
+
+/**
+ * Infers a flag's type from the values it has across environments
+ *
+ * Null values (inactive flags) carry no type information and are skipped.
+ * A mix of whole and fractional numbers is a FLOAT.
+ *
+ * @param values - The flag's values
+ * @returns The flag type, or null if every value is null or the values conflict
+ */
+export function inferFlagType(values: FlagValue[]): FlagType | null {
+  const types = new Set<FlagType>();
+
+  for (const value of values) {
+    if (typeof value === 'boolean') {
+      types.add('SWITCH');
+    } else if (typeof value === 'number') {
+      types.add(Number.isInteger(value) ? 'INTEGER' : 'FLOAT');
+    } else if (typeof value === 'string') {
+      types.add('STRING');
+    }
+  }
+
+  if (types.size === 2 && types.has('INTEGER') && types.has('FLOAT')) {
+    return 'FLOAT';
+  }
+
+  return types.size === 1 ? [...types][0] : null;
+}
+
+/**
+ * Generates the source of a typed flag module
+ *
+ * The output only depends on the flag names and types, and flags are
+ * sorted by name, so regenerating an unchanged environment produces an
+ * identical file.
+ *
+ * @param flagTypes - Inferred type of each flag, null when unknown
+ * @param options - Generation options
+ * @returns The TypeScript source
+ */
+export function generateFlagModule(
+  flagTypes: Record<string, FlagType | null>,
+  options: GenerateOptions = {}
+): string {
+  const importFrom = options.importFrom ?? '@moonspot/phlag-client';
+  const interfaceName = options.interfaceName ?? 'PhlagFlags';
+  const names = Object.keys(flagTypes).sort();
+  const usedFunctionNames = new Set<string>();
+
+  const lines: string[] = [
+    '// This file is generated by phlag-codegen. Do not edit it by hand.',
+    '',
+    `import type { PhlagClient } from '${importFrom}';`,
+    '',
+    `export interface ${interfaceName} {`,
+  ];
+
+  for (const name of names) {
+    const type = flagTypes[name];
+    lines.push(`  /** ${type ?? 'Unknown type (no non-null values)'} */`);
+    lines.push(`  ${propertyKey(name)}: ${type ? TS_TYPES[type] : 'boolean | number | string'};`);
+  }
+
+  lines.push('}', '', 'export const FLAG_NAMES = [');
+  for (const name of names) {
+    lines.push(`  ${quote(name)},`);
+  }
+  lines.push('] as const;', '', 'export type FlagName = (typeof FLAG_NAMES)[number];');
+
+  for (const name of names) {
+    const type = flagTypes[name];
+    const client = `client: PhlagClient<${interfaceName}>`;
+    const key = quote(name);
+    lines.push('');
+
+    if (type === 'SWITCH') {
+      const fn = uniqueName(`is${pascalCase(name)}Enabled`, usedFunctionNames);
+      lines.push(...signature(fn, [client], 'Promise<boolean>'));
+      lines.push(`  return client.isEnabled(${key});`);
+    } else if (type === null) {
+      const fn = uniqueName(`get${pascalCase(name)}`, usedFunctionNames);
+      lines.push(...signature(fn, [client], `Promise<${interfaceName}[${key}] | null>`));
+      lines.push(`  return client.getFlag(${key});`);
+    } else {
+      const accessor = { INTEGER: 'getInteger', FLOAT: 'getNumber', STRING: 'getString' }[type];
+      const tsType = TS_TYPES[type];
+      const fn = uniqueName(`get${pascalCase(name)}`, usedFunctionNames);
+      lines.push(...signature(fn, [client, `defaultValue: ${tsType}`], `Promise<${tsType}>`));
+      lines.push(`  return client.${accessor}(${key}, defaultValue);`);
+    }
+
+    lines.push('}');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Formats a flag name as an interface property key
+ *
+ * @param name - The flag name
+ * @returns The name, quoted if it isn't a valid identifier
+ */
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
+
+/**
+ * Formats a string as a single-quoted string literal
+ *
+ * @param value - The string
+ * @returns The string literal
+ */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Formats the opening line(s) of a function declaration
+ *
+ * Parameters are placed one per line when the declaration would exceed
+ * 100 characters, matching the repo's Prettier settings, so generated files
+ * pass format checks unchanged.
+ *
+ * @param name - The function name
+ * @param params - The parameter declarations
+ * @param returnType - The return type
+ * @returns The declaration lines, ending with the opening brace
+ */
+function signature(name: string, params: string[], returnType: string): string[] {
+  const line = `export function ${name}(${params.join(', ')}): ${returnType} {`;
+  if (line.length <= 100) {
+    return [line];
+  }
+
+  return [
+    `export function ${name}(`,
+    ...params.map((param, i) => `  ${param}${i < params.length - 1 ? ',' : ''}`),
+    `): ${returnType} {`,
+  ];
+}
+
+/**
+ * Converts a flag name such as feature_checkout to FeatureCheckout
+ *
+ * @param name - The flag name
+ * @returns The PascalCase name, with invalid identifier characters removed
+ */
+function pascalCase(name: string): string {
+  const result = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter((part) => part !== '')
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+
+  return result === '' ? 'Flag' : result;
+}
+
+/**
+ * Adds a numeric suffix to a function name that is already taken
+ *
+ * @param name - The preferred name
+ * @param used - Names generated so far, updated with the result
+ * @returns A name not in used
+ */
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let i = 2; used.has(candidate); i++) {
+    candidate = `${name}${i}`;
+  }
+  used.add(candidate);
+
+  return candidate;
+}
+
+/**
+ * Output streams for the command
+ */
+export interface CodegenIO {
+  stdout: (message: string) => void;
+  stderr: (message: string) => void;
+}
+
+const USAGE = `Usage: phlag-codegen --url <baseUrl> --env <environment> --out <file> [options]
+
+Options:
+  --url <baseUrl>          Base URL of the Phlag server
+  --api-key <key>          API key (default: PHLAG_API_KEY environment variable)
+  --env <environment>      Environment to read flags from (repeat to combine several)
+  --out <file>             File to write the generated module to
+  --check                  Exit with status 1 if <file> is out of date instead of writing it
+  --import-from <module>   Module to import PhlagClient from (default: @moonspot/phlag-client)
+  --interface <name>       Name of the flags interface (default: PhlagFlags)
+  --timeout <ms>           Request timeout in milliseconds (default: 10000)
+  --help                   Show this message`;
+
+/**
+ * Runs the phlag-codegen command
+ *
+ * Exit codes:
+ * - 0: the module was written, or is up to date with --check
+ * - 1: the module is out of date with --check
+ * - 2: invalid arguments, or the flags couldn't be fetched or written
+ *
+ * @param argv - Command line arguments, without the node and script paths
+ * @param env - Environment variables
+ * @param io - Output streams
+ * @returns The exit code
+ */
+export async function runCodegen(
+  argv: string[],
+  env: Record<string, string | undefined>,
+  io: CodegenIO
+): Promise<number> {
+  let args: ReturnType<typeof parseArgs>;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (args.help) {
+    io.stdout(USAGE);
+    return 0;
+  }
+
+  const apiKey = args.apiKey ?? env.PHLAG_API_KEY;
+  if (!args.url || !apiKey || args.envs.length === 0 || !args.out) {
+    io.stderr(`Missing --url, --api-key, --env or --out\n\n${USAGE}`);
+    return 2;
+  }
+
+  const client = new Client(args.url, apiKey, args.timeout);
+  const values: Record<string, FlagValue[]> = {};
+
+  for (const environment of args.envs) {
+    let flags: FlagCache;
+    try {
+      flags = await client.get(`all-flags/${environment}`, true);
+    } catch (error) {
+      const message = error instanceof PhlagError ? error.message : String(error);
+      io.stderr(`Unable to fetch flags for ${environment}: ${message}`);
+      return 2;
+    }
+
+    for (const [name, value] of Object.entries(flags ?? {})) {
+      (values[name] ??= []).push(value);
+    }
+  }
+
+  const flagTypes: Record<string, FlagType | null> = {};
+  for (const [name, flagValues] of Object.entries(values)) {
+    flagTypes[name] = inferFlagType(flagValues);
+    if (flagTypes[name] === null) {
+      io.stderr(`Warning: unable to infer the type of ${name}`);
+    }
+  }
+
+  const source = generateFlagModule(flagTypes, {
+    importFrom: args.importFrom,
+    interfaceName: args.interfaceName,
+  });
+
+  if (args.check) {
+    let current: string | null = null;
+    try {
+      current = await readFile(args.out, 'utf-8');
+    } catch {
+      // Missing file is out of date
+    }
+
+    if (current !== source) {
+      io.stderr(`${args.out} is out of date. Run phlag-codegen without --check to update it.`);
+      return 1;
+    }
+
+    io.stdout(`${args.out} is up to date`);
+    return 0;
+  }
+
+  try {
+    await writeFile(args.out, source, 'utf-8');
+  } catch (error) {
+    io.stderr(`Unable to write ${args.out}: ${(error as Error).message}`);
+    return 2;
+  }
+
+  io.stdout(`Wrote ${Object.keys(flagTypes).length} flags to ${args.out}`);
+  return 0;
+}
+
+/**
+ * Options that take a value
+ */
+const VALUE_OPTIONS = [
+  '--url',
+  '--api-key',
+  '--env',
+  '--out',
+  '--import-from',
+  '--interface',
+  '--timeout',
+];
+
+/**
+ * Parses the command line arguments
+ *
+ * @param argv - Command line arguments
+ * @returns The parsed options
+ * @throws {Error} For unknown options or options missing their value
+ */
+function parseArgs(argv: string[]) {
+  const args = {
+    url: undefined as string | undefined,
+    apiKey: undefined as string | undefined,
+    envs: [] as string[],
+    out: undefined as string | undefined,
+    check: false,
+    importFrom: undefined as string | undefined,
+    interfaceName: undefined as string | undefined,
+    timeout: 10000,
+    help: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--check') {
+      args.check = true;
+      continue;
+    }
+    if (arg === '--help' || arg === '-h') {
+      args.help = true;
+      continue;
+    }
+
+    if (!VALUE_OPTIONS.includes(arg)) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+    i++;
+
+    switch (arg) {
+      case '--url':
+        args.url = value;
+        break;
+      case '--api-key':
+        args.apiKey = value;
+        break;
+      case '--env':
+        args.envs.push(value);
+        break;
+      case '--out':
+        args.out = value;
+        break;
+      case '--import-from':
+        args.importFrom = value;
+        break;
+      case '--interface':
+        args.interfaceName = value;
+        break;
+      case '--timeout':
+        args.timeout = Number(value);
+        if (!Number.isFinite(args.timeout) || args.timeout <= 0) {
+          throw new Error(`Invalid timeout: ${value}`);
+        }
+        break;
+    }
+  }
+
+  return args;
+}
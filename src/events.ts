@@ -0,0 +1,83 @@
+/**
+ * Listener function for a single event type
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter
+ *
+ * Node's EventEmitter isn't available in browsers, so PhlagClient uses this
+ * small implementation instead. Event names and payload types are checked
+ * at compile time through the TEvents map.
+ *
+ * A listener that throws doesn't prevent the remaining listeners from
+ * running; the error is logged instead so a bad listener can't break a
+ * background refresh.
+ */
+export class EventEmitter<TEvents extends object> {
+  private readonly listeners = new Map<keyof TEvents, Set<EventListener<never>>>();
+
+  /**
+   * Registers a listener for an event
+   *
+   * @param event - The event name
+   * @param listener - Called with the event payload
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Removes a previously registered listener
+   *
+   * @param event - The event name
+   * @param listener - The listener to remove
+   */
+  off<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Calls every listener registered for an event
+   *
+   * @param event - The event name
+   * @param payload - The event payload
+   * @returns True if the event had listeners
+   */
+  emit<K extends keyof TEvents>(event: K, payload: TEvents[K]): boolean {
+    const set = this.listeners.get(event);
+    if (!set || set.size === 0) {
+      return false;
+    }
+
+    for (const listener of [...set] as EventListener<TEvents[K]>[]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(`Phlag: Error in ${String(event)} listener`, error.message);
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Checks if an event has any listeners
+   *
+   * @param event - The event name
+   * @returns True if at least one listener is registered
+   */
+  hasListeners<K extends keyof TEvents>(event: K): boolean {
+    return (this.listeners.get(event)?.size ?? 0) > 0;
+  }
+}
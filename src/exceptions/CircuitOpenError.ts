@@ -0,0 +1,16 @@
+import { PhlagError } from './PhlagError.js';
+
+/**
+ * Thrown when a request is rejected because the circuit breaker is open
+ *
+ * After repeated failures the client stops sending requests to the Phlag
+ * server for a cool-down period and fails fast with this error instead of
+ * waiting for each request to time out.
+ */
+export class CircuitOpenError extends PhlagError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CircuitOpenError';
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
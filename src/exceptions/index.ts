@@ -3,3 +3,4 @@ export { AuthenticationError } from './AuthenticationError.js';
 export { InvalidFlagError } from './InvalidFlagError.js';
 export { InvalidEnvironmentError } from './InvalidEnvironmentError.js';
 export { NetworkError } from './NetworkError.js';
+export { CircuitOpenError } from './CircuitOpenError.js';
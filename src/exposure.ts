@@ -0,0 +1,136 @@
+import type { FlagEvaluation } from './types.js';
+
+/**
+ * Options for an ExposureExporter
+ */
+export interface ExposureExporterOptions {
+  /**
+   * Receives each batch of exposures, for example to send them to an
+   * analytics pipeline
+   */
+  sink: (exposures: FlagEvaluation[]) => void | Promise<void>;
+
+  /**
+   * Milliseconds during which repeated reads of the same flag, value and
+   * environment are recorded once (default: 60000)
+   */
+  dedupeWindow?: number;
+
+  /**
+   * Milliseconds to wait after the first buffered exposure before flushing
+   * (default: 10000)
+   */
+  flushInterval?: number;
+
+  /**
+   * Exposures that trigger a flush as soon as they are buffered
+   * (default: 100)
+   */
+  maxBatchSize?: number;
+}
+
+/**
+ * Batches flag exposures for a user-supplied sink
+ *
+ * Pass record() to the onEvaluation option of PhlagClient. Identical
+ * exposures (same flag, value and environment) within the dedupe window are
+ * recorded once, so a hot code path doesn't flood the sink. Buffered
+ * exposures are flushed after flushInterval milliseconds or once
+ * maxBatchSize are waiting, whichever comes first.
+ *
+ * Sink failures are logged and the batch is dropped. Call flush() on
+ * shutdown to send what is left.
+ *
+ * @example
+ * ```typescript
+ * const exporter = new ExposureExporter({
+ *   sink: (exposures) => analytics.track('flag_exposures', exposures),
+ * });
+ *
+ * const client = new PhlagClient({
+ *   baseUrl: 'http://localhost:8000',
+ *   apiKey: 'your-api-key',
+ *   environment: 'production',
+ *   onEvaluation: (evaluation) => exporter.record(evaluation),
+ * });
+ *
+ * process.on('SIGTERM', () => exporter.flush());
+ * ```
+ */
+export class ExposureExporter {
+  private readonly sink: ExposureExporterOptions['sink'];
+  private readonly dedupeWindow: number;
+  private readonly flushInterval: number;
+  private readonly maxBatchSize: number;
+  private readonly lastSeen = new Map<string, number>();
+  private buffer: FlagEvaluation[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Creates a new exporter
+   *
+   * @param options - Exporter options
+   */
+  constructor(options: ExposureExporterOptions) {
+    this.sink = options.sink;
+    this.dedupeWindow = options.dedupeWindow ?? 60000;
+    this.flushInterval = options.flushInterval ?? 10000;
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+  }
+
+  /**
+   * Buffers an exposure unless an identical one was recorded within the
+   * dedupe window
+   *
+   * @param evaluation - The flag read
+   */
+  record(evaluation: FlagEvaluation): void {
+    const key = JSON.stringify([evaluation.environment, evaluation.name, evaluation.value]);
+    const seenAt = this.lastSeen.get(key);
+    if (seenAt !== undefined && evaluation.timestamp - seenAt < this.dedupeWindow) {
+      return;
+    }
+
+    this.lastSeen.set(key, evaluation.timestamp);
+    this.buffer.push(evaluation);
+
+    if (this.buffer.length >= this.maxBatchSize) {
+      void this.flush();
+    } else if (this.flushTimer === null) {
+      this.flushTimer = setTimeout(() => void this.flush(), this.flushInterval);
+    }
+  }
+
+  /**
+   * Sends all buffered exposures to the sink and clears the flush timer
+   *
+   * Dedupe entries older than the window are dropped at the same time, so
+   * memory use stays bounded by the number of distinct recent exposures.
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer !== null) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const now = Date.now();
+    for (const [key, seenAt] of this.lastSeen) {
+      if (now - seenAt >= this.dedupeWindow) {
+        this.lastSeen.delete(key);
+      }
+    }
+
+    if (this.buffer.length === 0) {
+      return;
+    }
+
+    const batch = this.buffer;
+    this.buffer = [];
+
+    try {
+      await this.sink(batch);
+    } catch (error) {
+      console.error('Phlag: Unable to export flag exposures', error);
+    }
+  }
+}
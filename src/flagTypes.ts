@@ -0,0 +1,30 @@
+import type { FlagValue, FlagType } from './types.js';
+
+/**
+ * Checks if a flag value has the runtime type of a flag type
+ *
+ * - SWITCH flags hold booleans
+ * - INTEGER flags hold whole numbers
+ * - FLOAT flags hold any finite number (whole numbers included, since JSON
+ *   doesn't distinguish 2 from 2.0)
+ * - STRING flags hold strings
+ *
+ * Null is not considered a match for any type. Callers decide whether null
+ * (an inactive flag) is acceptable.
+ *
+ * @param value - The flag value
+ * @param type - The expected flag type
+ * @returns True if the value matches the type
+ */
+export function matchesFlagType(value: FlagValue, type: FlagType): boolean {
+  switch (type) {
+    case 'SWITCH':
+      return typeof value === 'boolean';
+    case 'INTEGER':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'FLOAT':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'STRING':
+      return typeof value === 'string';
+  }
+}
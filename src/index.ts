@@ -1,10 +1,65 @@
 export { PhlagClient } from './PhlagClient.js';
 export { Client } from './Client.js';
-export type { FlagValue, FlagType, FlagCache, PhlagClientOptions } from './types.js';
+export { ExposureExporter } from './exposure.js';
+export type { ExposureExporterOptions } from './exposure.js';
+export {
+  FileCacheStore,
+  MemoryCacheStore,
+  KeyValueCacheStore,
+  LocalStorageCacheStore,
+  IndexedDBCacheStore,
+  BrowserCacheStore,
+} from './stores.js';
+export type {
+  FileCacheStoreOptions,
+  KeyValueClient,
+  KeyValueCacheStoreOptions,
+  LocalStorageCacheStoreOptions,
+  IndexedDBCacheStoreOptions,
+  BrowserCacheStoreOptions,
+} from './stores.js';
+export type {
+  FlagValue,
+  FlagType,
+  FlagCache,
+  CacheEntry,
+  CacheMetadata,
+  FlagCacheStore,
+  PhlagClientOptions,
+  ClientOptions,
+  FetchFunction,
+  ApiKeyProvider,
+  RequestInterceptors,
+  InterceptedRequest,
+  InterceptedResponse,
+  InterceptedError,
+  TelemetryOptions,
+  TelemetryTracer,
+  TelemetryMeter,
+  RetryOptions,
+  CircuitState,
+  CircuitBreakerOptions,
+  BatchStrategy,
+  TypeMismatch,
+  FlagDefinitions,
+  FlagName,
+  FlagSchema,
+  FlagSchemaEntry,
+  SchemaViolation,
+  FlagSource,
+  FlagEvaluation,
+  FlagUsageReport,
+  FlagChangeEvent,
+  FlagRefreshEvent,
+  PhlagClientEvents,
+} from './types.js';
+export type { EventListener } from './events.js';
+export type { ServerSentEvent, StreamHandlers } from './sse.js';
 export {
   PhlagError,
   AuthenticationError,
   InvalidFlagError,
   InvalidEnvironmentError,
   NetworkError,
+  CircuitOpenError,
 } from './exceptions/index.js';
@@ -0,0 +1,142 @@
+/**
+ * A single event received from a Server-Sent Events stream
+ */
+export interface ServerSentEvent {
+  /**
+   * The event type (`message` when the server didn't name one)
+   */
+  event: string;
+
+  /**
+   * The event data, with multiple data lines joined by newlines
+   */
+  data: string;
+
+  /**
+   * The event ID, if the server sent one
+   */
+  id?: string;
+}
+
+/**
+ * Callbacks for a streaming request made with Client.stream()
+ */
+export interface StreamHandlers {
+  /**
+   * Called once the server has accepted the stream
+   */
+  onOpen?: () => void;
+
+  /**
+   * Called for each event received from the server
+   */
+  onEvent: (event: ServerSentEvent) => void;
+}
+
+/**
+ * Incremental parser for the text/event-stream format
+ *
+ * Network chunks don't line up with event boundaries, so the parser keeps
+ * any incomplete line between calls to feed(). Comment lines and the
+ * `retry` field are ignored; reconnect timing is handled by PhlagClient.
+ *
+ * @see https://html.spec.whatwg.org/multipage/server-sent-events.html
+ */
+export class SseParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private eventId: string | undefined;
+  private pendingCarriageReturn = false;
+
+  /**
+   * Parses a chunk of the stream
+   *
+   * @param chunk - Decoded text received from the server
+   * @returns The events completed by this chunk
+   */
+  feed(chunk: string): ServerSentEvent[] {
+    // A CRLF split across chunks already ended its line at the CR
+    if (this.pendingCarriageReturn && chunk.startsWith('\n')) {
+      chunk = chunk.slice(1);
+      this.pendingCarriageReturn = false;
+    }
+    if (chunk !== '') {
+      this.pendingCarriageReturn = chunk.endsWith('\r');
+    }
+
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r\n|\r|\n/);
+
+    // The last element is an incomplete line (or empty after a newline)
+    this.buffer = lines.pop() ?? '';
+
+    const events: ServerSentEvent[] = [];
+    for (const line of lines) {
+      const event = this.parseLine(line);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Processes a single complete line
+   *
+   * @param line - The line without its terminator
+   * @returns An event if the line was the blank line ending one
+   */
+  private parseLine(line: string): ServerSentEvent | null {
+    if (line === '') {
+      return this.dispatch();
+    }
+
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        this.eventId = value;
+        break;
+    }
+
+    return null;
+  }
+
+  /**
+   * Builds the pending event and resets the per-event state
+   *
+   * @returns The event, or null if no data lines were received
+   */
+  private dispatch(): ServerSentEvent | null {
+    const event: ServerSentEvent | null =
+      this.dataLines.length > 0
+        ? {
+            event: this.eventType || 'message',
+            data: this.dataLines.join('\n'),
+            ...(this.eventId !== undefined ? { id: this.eventId } : {}),
+          }
+        : null;
+
+    this.eventType = '';
+    this.dataLines = [];
+
+    return event;
+  }
+}
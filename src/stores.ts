@@ -0,0 +1,750 @@
+import type { CacheEntry, CacheMetadata, FlagCacheStore } from './types.js';
+import {
+  acquireCacheLock,
+  cacheFilenameForKey,
+  deleteCacheFile,
+  loadCacheFromFile,
+  parseCacheKey,
+  resolveEncryptionKey,
+  writeCacheToFile,
+} from './cache.js';
+import type { CacheFileOptions } from './cache.js';
+
+/**
+ * Cache store implementations for the cacheStore option
+ *
+ * Every store reports read failures as misses and logs write failures, so a
+ * broken backend leaves the client with in-memory caching instead of errors.
+ */
+
+/**
+ * Checks that a stored value is a snapshot and copies it
+ *
+ * @param value - The value read from storage
+ * @returns The snapshot, or null if the value isn't one
+ */
+function toCacheEntry(value: unknown): CacheEntry | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+
+  const { flags, fetchedAt } = value as Partial<CacheEntry>;
+  if (
+    typeof flags !== 'object' ||
+    flags === null ||
+    Array.isArray(flags) ||
+    typeof fetchedAt !== 'number'
+  ) {
+    return null;
+  }
+
+  return { flags: { ...flags }, fetchedAt };
+}
+
+/**
+ * Parses a snapshot serialized with JSON.stringify
+ *
+ * @param contents - The serialized snapshot
+ * @returns The snapshot, or null if it is missing or invalid
+ */
+function parseCacheEntry(contents: string | null | undefined): CacheEntry | null {
+  if (contents === null || contents === undefined) {
+    return null;
+  }
+
+  try {
+    return toCacheEntry(JSON.parse(contents));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Logs a failed write or delete
+ *
+ * @param store - The store name
+ * @param error - The error thrown by the backend
+ */
+function reportStoreError(store: string, error: unknown): void {
+  console.error(
+    `Phlag: Unable to update ${store} cache`,
+    error instanceof Error ? error.message : error
+  );
+}
+
+/**
+ * Options for a FileCacheStore
+ */
+export interface FileCacheStoreOptions {
+  /**
+   * Store every key in this file instead of one file per key
+   */
+  file?: string;
+
+  /**
+   * Directory for per-key files (default: the system temp directory)
+   */
+  directory?: string;
+
+  /**
+   * Flush each file to disk before renaming it into place (default: false)
+   */
+  fsync?: boolean;
+
+  /**
+   * Milliseconds after which a refresh lock is assumed to belong to a
+   * crashed process and broken (default: 30000)
+   */
+  lockStaleAfter?: number;
+
+  /**
+   * Permissions for new cache files (default: 0o600, owner only)
+   */
+  mode?: number;
+
+  /**
+   * Encrypt and authenticate files with AES-256-GCM: a 32-byte key, or a
+   * long random secret hashed into one (default: none)
+   */
+  encryptionKey?: string | Uint8Array;
+}
+
+/**
+ * Stores snapshots as JSON files (Node.js only)
+ *
+ * Each key gets its own `phlag_cache_<md5>.json` file, holding the
+ * snapshot in a versioned envelope with its fetch time, server,
+ * environment and checksum. This is the default store in Node.js, pinned
+ * to the cacheFile option.
+ *
+ * Files are replaced atomically, and refreshes take a `<file>.lock` lock
+ * file so that only one of the processes sharing a file (such as cluster
+ * workers) refreshes it while the others wait for the new file. Files are
+ * readable by their owner only unless another mode is given, and can be
+ * encrypted.
+ */
+export class FileCacheStore implements FlagCacheStore {
+  private readonly file: string | null;
+  private readonly directory: string | undefined;
+  private readonly lockStaleAfter: number;
+  private readonly fileOptions: CacheFileOptions;
+
+  /**
+   * Creates a file store
+   *
+   * @param options - Where and how to write the files
+   * @throws {PhlagError} When a byte array encryption key isn't 32 bytes long
+   */
+  constructor(options: FileCacheStoreOptions = {}) {
+    this.file = options.file ?? null;
+    this.directory = options.directory;
+    this.lockStaleAfter = options.lockStaleAfter ?? 30000;
+    this.fileOptions = {
+      fsync: options.fsync ?? false,
+      mode: options.mode ?? 0o600,
+      encryptionKey:
+        options.encryptionKey !== undefined
+          ? resolveEncryptionKey(options.encryptionKey)
+          : undefined,
+    };
+  }
+
+  /**
+   * Gets the file a key is stored in
+   *
+   * @param key - The cache key
+   * @returns The path to the cache file
+   */
+  getFilename(key: string): string {
+    return this.file ?? cacheFilenameForKey(key, this.directory);
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    return loadCacheFromFile(this.getFilename(key), Infinity, parseCacheKey(key), this.fileOptions);
+  }
+
+  /**
+   * Takes the refresh lock for a key's file
+   *
+   * If the lock file can't be created (for example, the directory isn't
+   * writable), the refresh goes ahead unlocked.
+   *
+   * @param key - The cache key
+   * @returns Releases the lock, or null if another process holds it
+   */
+  async lock(key: string): Promise<(() => Promise<void>) | null> {
+    try {
+      return await acquireCacheLock(this.getFilename(key), this.lockStaleAfter);
+    } catch {
+      return async () => undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await writeCacheToFile(this.getFilename(key), entry, parseCacheKey(key), this.fileOptions);
+  }
+
+  async delete(key: string): Promise<void> {
+    await deleteCacheFile(this.getFilename(key));
+  }
+}
+
+/**
+ * Keeps snapshots in a Map
+ *
+ * Share one instance between clients to share snapshots within a process,
+ * for example across per-request clients in a server.
+ */
+export class MemoryCacheStore implements FlagCacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  async get(key: string): Promise<CacheEntry | null> {
+    return toCacheEntry(this.entries.get(key));
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.set(key, { flags: { ...entry.flags }, fetchedAt: entry.fetchedAt });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async getMetadata(key: string): Promise<CacheMetadata | null> {
+    const entry = this.entries.get(key);
+    return entry ? { fetchedAt: entry.fetchedAt } : null;
+  }
+}
+
+/**
+ * Minimal string key-value client, such as a thin wrapper around Redis
+ */
+export interface KeyValueClient {
+  /**
+   * Reads a value
+   *
+   * @param key - The key
+   * @returns The value, or null or undefined if it is missing
+   */
+  get(key: string): Promise<string | null | undefined>;
+
+  /**
+   * Writes a value
+   *
+   * @param key - The key
+   * @param value - The value
+   * @param ttl - Seconds the value is needed for; the client may expire it after that
+   */
+  set(key: string, value: string, ttl: number): Promise<unknown>;
+
+  /**
+   * Removes a value
+   *
+   * @param key - The key
+   */
+  delete(key: string): Promise<unknown>;
+}
+
+/**
+ * Options for a KeyValueCacheStore
+ */
+export interface KeyValueCacheStoreOptions {
+  /**
+   * Prefix added to every key (default: 'phlag:')
+   */
+  prefix?: string;
+}
+
+/**
+ * Stores snapshots as JSON strings in a key-value service
+ *
+ * Use it to share one snapshot between serverless instances or cluster
+ * workers through Redis, Memcached or similar.
+ *
+ * @example
+ * ```typescript
+ * const cacheStore = new KeyValueCacheStore({
+ *   get: (key) => redis.get(key),
+ *   set: (key, value, ttl) => redis.set(key, value, { EX: ttl }),
+ *   delete: (key) => redis.del(key),
+ * });
+ * ```
+ */
+export class KeyValueCacheStore implements FlagCacheStore {
+  private readonly client: KeyValueClient;
+  private readonly prefix: string;
+
+  /**
+   * Creates a key-value store
+   *
+   * @param client - The key-value client
+   * @param options - Store options
+   */
+  constructor(client: KeyValueClient, options: KeyValueCacheStoreOptions = {}) {
+    this.client = client;
+    this.prefix = options.prefix ?? 'phlag:';
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    try {
+      return parseCacheEntry(await this.client.get(this.prefix + key));
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry, ttl: number): Promise<void> {
+    try {
+      await this.client.set(this.prefix + key, JSON.stringify(entry), ttl);
+    } catch (error) {
+      reportStoreError('key-value', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.client.delete(this.prefix + key);
+    } catch (error) {
+      reportStoreError('key-value', error);
+    }
+  }
+}
+
+/**
+ * Options for a LocalStorageCacheStore
+ */
+export interface LocalStorageCacheStoreOptions {
+  /**
+   * Storage to use (default: the global localStorage)
+   */
+  storage?: Storage;
+
+  /**
+   * Prefix added to every key (default: 'phlag:')
+   */
+  prefix?: string;
+}
+
+/**
+ * Stores snapshots in localStorage (browsers)
+ *
+ * Snapshots survive page loads. localStorage is small (usually about 5 MB
+ * per origin) and synchronous, so prefer IndexedDBCacheStore for large
+ * flag sets.
+ */
+export class LocalStorageCacheStore implements FlagCacheStore {
+  private readonly storage: Storage | undefined;
+  private readonly prefix: string;
+
+  /**
+   * Creates a localStorage store
+   *
+   * @param options - Store options
+   */
+  constructor(options: LocalStorageCacheStoreOptions = {}) {
+    this.storage = options.storage;
+    this.prefix = options.prefix ?? 'phlag:';
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    try {
+      return parseCacheEntry(this.getStorage().getItem(this.prefix + key));
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      this.getStorage().setItem(this.prefix + key, JSON.stringify(entry));
+    } catch (error) {
+      reportStoreError('localStorage', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      this.getStorage().removeItem(this.prefix + key);
+    } catch (error) {
+      reportStoreError('localStorage', error);
+    }
+  }
+
+  /**
+   * Gets the storage, looking up localStorage on each use since accessing
+   * it can throw (for example when storage is disabled)
+   *
+   * @returns The storage
+   */
+  private getStorage(): Storage {
+    return this.storage ?? globalThis.localStorage;
+  }
+}
+
+/**
+ * Options for an IndexedDBCacheStore
+ */
+export interface IndexedDBCacheStoreOptions {
+  /**
+   * IndexedDB factory to use (default: the global indexedDB)
+   */
+  indexedDB?: IDBFactory;
+
+  /**
+   * Database name (default: 'phlag')
+   */
+  database?: string;
+
+  /**
+   * Object store name (default: 'flags')
+   */
+  storeName?: string;
+}
+
+/**
+ * Stores snapshots in IndexedDB (browsers)
+ *
+ * Snapshots survive page loads, and IndexedDB's larger quota fits flag
+ * sets too big for localStorage.
+ */
+export class IndexedDBCacheStore implements FlagCacheStore {
+  private readonly factory: IDBFactory | undefined;
+  private readonly database: string;
+  private readonly storeName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Creates an IndexedDB store
+   *
+   * @param options - Store options
+   */
+  constructor(options: IndexedDBCacheStoreOptions = {}) {
+    this.factory = options.indexedDB;
+    this.database = options.database ?? 'phlag';
+    this.storeName = options.storeName ?? 'flags';
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    try {
+      return toCacheEntry(await this.run('readonly', (store) => store.get(key)));
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      const value: CacheEntry = { flags: { ...entry.flags }, fetchedAt: entry.fetchedAt };
+      await this.run('readwrite', (store) => store.put(value, key));
+    } catch (error) {
+      reportStoreError('IndexedDB', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.run('readwrite', (store) => store.delete(key));
+    } catch (error) {
+      reportStoreError('IndexedDB', error);
+    }
+  }
+
+  /**
+   * Opens the database on first use, creating the object store if needed
+   *
+   * A failed open is retried on the next call.
+   *
+   * @returns The database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (this.db === null) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = (this.factory ?? globalThis.indexedDB).open(this.database, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch((error: unknown) => {
+        this.db = null;
+        throw error;
+      });
+    }
+
+    return this.db;
+  }
+
+  /**
+   * Runs one request against the object store
+   *
+   * @param mode - The transaction mode
+   * @param operation - Creates the request
+   * @returns The request's result
+   */
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Options for a BrowserCacheStore
+ */
+export interface BrowserCacheStoreOptions {
+  /**
+   * Storage to use (default: the global localStorage)
+   */
+  storage?: Storage;
+
+  /**
+   * Prefix added to every localStorage key (default: 'phlag:')
+   */
+  prefix?: string;
+
+  /**
+   * Largest serialized snapshot, in characters, kept in localStorage;
+   * larger ones go to the fallback store (default: 500000)
+   */
+  maxLocalStorageLength?: number;
+
+  /**
+   * Store for snapshots too large for localStorage (default: an
+   * IndexedDBCacheStore)
+   */
+  fallback?: FlagCacheStore;
+
+  /**
+   * Target that receives `storage` events from other tabs (default: the
+   * global window)
+   */
+  eventTarget?: EventTarget;
+}
+
+/**
+ * A snapshot as written to localStorage by BrowserCacheStore
+ *
+ * Snapshots moved to the fallback store leave a record without flags, so
+ * metadata reads and change events still go through localStorage.
+ */
+interface BrowserCacheRecord {
+  key: string;
+  fetchedAt: number;
+  expiresAt: number;
+  flags?: CacheEntry['flags'];
+}
+
+/**
+ * Persists snapshots across page loads and syncs them between tabs
+ * (browsers)
+ *
+ * This is the default store in browsers. Snapshots are written to
+ * localStorage along with their cache key, fetch time and expiry. A
+ * snapshot larger than maxLocalStorageLength, or one that doesn't fit in
+ * the remaining quota, is written to IndexedDB instead, leaving only its
+ * metadata in localStorage. Quota and access errors are logged and treated
+ * as misses.
+ *
+ * Every write changes the localStorage record, so other tabs receive a
+ * `storage` event for it. PhlagClient listens for these once start() is
+ * called, and applies a snapshot refreshed in one tab to the others.
+ */
+export class BrowserCacheStore implements FlagCacheStore {
+  private readonly storage: Storage | undefined;
+  private readonly prefix: string;
+  private readonly maxLocalStorageLength: number;
+  private readonly fallback: FlagCacheStore;
+  private readonly eventTarget: EventTarget | undefined;
+
+  /**
+   * Creates a browser store
+   *
+   * @param options - Store options
+   */
+  constructor(options: BrowserCacheStoreOptions = {}) {
+    this.storage = options.storage;
+    this.prefix = options.prefix ?? 'phlag:';
+    this.maxLocalStorageLength = options.maxLocalStorageLength ?? 500000;
+    this.fallback = options.fallback ?? new IndexedDBCacheStore();
+    this.eventTarget = options.eventTarget;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const storage = this.getStorage();
+    if (storage === null) {
+      return this.fallback.get(key);
+    }
+
+    const record = this.readRecord(storage, key);
+    if (record === null) {
+      return null;
+    }
+
+    if (Date.now() >= record.expiresAt) {
+      await this.delete(key);
+      return null;
+    }
+
+    if (record.flags === undefined) {
+      const entry = await this.fallback.get(key);
+      return entry !== null && entry.fetchedAt === record.fetchedAt ? entry : null;
+    }
+
+    return toCacheEntry(record);
+  }
+
+  async set(key: string, entry: CacheEntry, ttl: number): Promise<void> {
+    const storage = this.getStorage();
+    if (storage === null) {
+      await this.fallback.set(key, entry, ttl);
+      return;
+    }
+
+    const record: BrowserCacheRecord = {
+      key,
+      fetchedAt: entry.fetchedAt,
+      expiresAt: entry.fetchedAt + ttl * 1000,
+    };
+
+    const previous = this.readRecord(storage, key);
+    const contents = JSON.stringify({ ...record, flags: entry.flags });
+    if (contents.length <= this.maxLocalStorageLength && this.writeRecord(storage, key, contents)) {
+      if (previous !== null && previous.flags === undefined) {
+        await this.fallback.delete(key);
+      }
+      return;
+    }
+
+    await this.fallback.set(key, entry, ttl);
+    if (!this.writeRecord(storage, key, JSON.stringify(record))) {
+      console.error('Phlag: Unable to update browser cache: localStorage is full');
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const storage = this.getStorage();
+    if (storage !== null) {
+      try {
+        storage.removeItem(this.prefix + key);
+      } catch (error) {
+        reportStoreError('localStorage', error);
+      }
+    }
+
+    await this.fallback.delete(key);
+  }
+
+  async getMetadata(key: string): Promise<CacheMetadata | null> {
+    const storage = this.getStorage();
+    if (storage === null) {
+      if (this.fallback.getMetadata) {
+        return this.fallback.getMetadata(key);
+      }
+
+      const entry = await this.fallback.get(key);
+      return entry ? { fetchedAt: entry.fetchedAt } : null;
+    }
+
+    const record = this.readRecord(storage, key);
+    return record !== null && Date.now() < record.expiresAt
+      ? { fetchedAt: record.fetchedAt }
+      : null;
+  }
+
+  /**
+   * Calls the listener when another tab writes or deletes the snapshot
+   *
+   * @param key - The cache key
+   * @param listener - Receives the new snapshot, or null when it was removed
+   * @returns Stops listening
+   */
+  subscribe(key: string, listener: (entry: CacheEntry | null) => void): () => void {
+    const target =
+      this.eventTarget ?? (typeof window !== 'undefined' ? (window as EventTarget) : null);
+    if (target === null) {
+      return () => undefined;
+    }
+
+    const handler = (event: Event) => {
+      const { key: storageKey } = event as StorageEvent;
+      // A null key means another tab cleared all of localStorage
+      if (storageKey === this.prefix + key || storageKey === null) {
+        void this.get(key).then(listener);
+      }
+    };
+
+    target.addEventListener('storage', handler);
+    return () => target.removeEventListener('storage', handler);
+  }
+
+  /**
+   * Gets localStorage, or null when it is missing or access is denied
+   *
+   * @returns The storage, or null
+   */
+  private getStorage(): Storage | null {
+    try {
+      return this.storage ?? globalThis.localStorage ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Reads and validates the record for a key
+   *
+   * @param storage - The storage to read
+   * @param key - The cache key
+   * @returns The record, or null if it is missing, invalid or for another key
+   */
+  private readRecord(storage: Storage, key: string): BrowserCacheRecord | null {
+    try {
+      const contents = storage.getItem(this.prefix + key);
+      if (contents === null) {
+        return null;
+      }
+
+      const record = JSON.parse(contents) as Partial<BrowserCacheRecord>;
+      if (
+        record?.key !== key ||
+        typeof record.fetchedAt !== 'number' ||
+        typeof record.expiresAt !== 'number'
+      ) {
+        return null;
+      }
+
+      return record as BrowserCacheRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Writes the record for a key, removing the old one if the new one
+   * doesn't fit
+   *
+   * @param storage - The storage to write
+   * @param key - The cache key
+   * @param contents - The serialized record
+   * @returns True if the record was written
+   */
+  private writeRecord(storage: Storage, key: string, contents: string): boolean {
+    try {
+      storage.setItem(this.prefix + key, contents);
+      return true;
+    } catch {
+      try {
+        storage.removeItem(this.prefix + key);
+      } catch {
+        // Storage became unavailable
+      }
+      return false;
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import type {
+  InterceptedRequest,
+  TelemetryAttributes,
+  TelemetryCounter,
+  TelemetryHistogram,
+  TelemetryMeter,
+  TelemetryOptions,
+  TelemetrySpan,
+  TelemetryTracer,
+} from './types.js';
+
+/**
+ * OpenTelemetry instrumentation for the Phlag client
+ *
+ * @opentelemetry/api is an optional peer dependency: the tracer and meter
+ * are passed in by the caller and described by structural types in
+ * types.ts, so neither this module nor the type definitions import it.
+ * Without them every method is a no-op, so an uninstrumented client never
+ * loads the API or creates a span.
+ */
+
+// SpanKind.CLIENT and SpanStatusCode.ERROR, copied so the API isn't loaded
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Tracks a single HTTP request until it completes
+ */
+export interface RequestTrace {
+  /**
+   * Ends the span and records the request metrics. Later calls are ignored.
+   *
+   * @param status - The HTTP status code, if a response arrived
+   * @param error - The error the request failed with
+   */
+  end(status?: number, error?: Error): void;
+}
+
+const NOOP_TRACE: RequestTrace = { end: () => undefined };
+
+/**
+ * Creates and records the client's spans and metrics
+ *
+ * Instruments are created on first use, so the HTTP client and PhlagClient
+ * only register the metrics they record.
+ */
+export class Telemetry {
+  private readonly tracer: TelemetryTracer | null;
+  private readonly meter: TelemetryMeter | null;
+  private requestDuration: TelemetryHistogram | null = null;
+  private requestErrors: TelemetryCounter | null = null;
+  private cacheLookups: TelemetryCounter | null = null;
+  private cacheAge: TelemetryHistogram | null = null;
+
+  /**
+   * Creates the instrumentation
+   *
+   * @param options - The tracer and meter to record with
+   */
+  constructor(options: TelemetryOptions = {}) {
+    this.tracer = options.tracer ?? null;
+    this.meter = options.meter ?? null;
+  }
+
+  /**
+   * Starts tracking an HTTP request
+   *
+   * Spans are named `phlag.request` and carry the endpoint, URL and
+   * response status. The `phlag.client.request.duration` histogram records
+   * latency in milliseconds by endpoint type (flag, all-flags or stream).
+   *
+   * @param request - The request about to be sent
+   * @returns A handle that ends the tracking
+   */
+  startRequest(request: InterceptedRequest): RequestTrace {
+    if (this.tracer === null && this.meter === null) {
+      return NOOP_TRACE;
+    }
+
+    const endpointType = request.endpoint.split('/')[0];
+    const startedAt = Date.now();
+    const span =
+      this.tracer?.startSpan('phlag.request', {
+        kind: SPAN_KIND_CLIENT,
+        attributes: {
+          'http.request.method': 'GET',
+          'url.full': request.url,
+          'phlag.endpoint': request.endpoint,
+        },
+      }) ?? null;
+
+    let ended = false;
+    return {
+      end: (status, error) => {
+        if (ended) {
+          return;
+        }
+        ended = true;
+
+        const attributes: TelemetryAttributes = { 'phlag.endpoint.type': endpointType };
+        if (status !== undefined) {
+          attributes['http.response.status_code'] = status;
+        }
+        if (error) {
+          attributes['error.type'] = error.name;
+          this.recordError(error, endpointType);
+        }
+
+        this.getRequestDuration()?.record(Date.now() - startedAt, attributes);
+
+        if (span !== null) {
+          span.setAttributes(attributes);
+          if (error) {
+            span.recordException(error);
+            span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+          }
+          span.end();
+        }
+      },
+    };
+  }
+
+  /**
+   * Counts a failed request in `phlag.client.errors`, by error class
+   *
+   * @param error - The error the request failed with
+   * @param endpointType - The endpoint type (flag, all-flags or stream)
+   */
+  recordError(error: Error, endpointType: string): void {
+    if (this.meter === null) {
+      return;
+    }
+
+    this.requestErrors ??= this.meter.createCounter('phlag.client.errors', {
+      description: 'Failed requests to the Phlag server, by error class',
+    });
+    this.requestErrors.add(1, {
+      'error.type': error.name,
+      'phlag.endpoint.type': endpointType,
+    });
+  }
+
+  /**
+   * Records a read from the flag cache
+   *
+   * `phlag.cache.lookups` counts reads by whether they were served from
+   * memory (hit) and whether that data was past its TTL (stale), and
+   * `phlag.cache.age` records how old the served snapshot was in seconds.
+   *
+   * @param environment - The environment name
+   * @param hit - Whether the read was served without waiting for a load
+   * @param stale - Whether the served data was past its TTL
+   * @param age - Age of the served snapshot in seconds, if known
+   */
+  recordCacheLookup(environment: string, hit: boolean, stale: boolean, age?: number): void {
+    if (this.meter === null) {
+      return;
+    }
+
+    this.cacheLookups ??= this.meter.createCounter('phlag.cache.lookups', {
+      description: 'Reads from the flag cache',
+    });
+    this.cacheLookups.add(1, {
+      'phlag.environment': environment,
+      'phlag.cache.hit': hit,
+      'phlag.cache.stale': stale,
+    });
+
+    if (age !== undefined) {
+      this.cacheAge ??= this.meter.createHistogram('phlag.cache.age', {
+        description: 'Age of the flag snapshot served from the cache',
+        unit: 's',
+      });
+      this.cacheAge.record(age, { 'phlag.environment': environment });
+    }
+  }
+
+  /**
+   * Runs a flag read inside a `phlag.get_flag` span
+   *
+   * The span is active while the read runs, so request spans started by it
+   * become its children.
+   *
+   * @param attributes - Attributes for the span
+   * @param read - Performs the read, and may add attributes to the span
+   * @returns The result of the read
+   */
+  async traceFlag<T>(
+    attributes: TelemetryAttributes,
+    read: (span: TelemetrySpan | null) => Promise<T>
+  ): Promise<T> {
+    if (this.tracer === null) {
+      return read(null);
+    }
+
+    return this.tracer.startActiveSpan('phlag.get_flag', { attributes }, async (span) => {
+      try {
+        return await read(span);
+      } catch (error) {
+        if (error instanceof Error) {
+          span.recordException(error);
+          span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+        }
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Gets the request duration histogram, creating it on first use
+   *
+   * @returns The histogram, or null without a meter
+   */
+  private getRequestDuration(): TelemetryHistogram | null {
+    if (this.meter === null) {
+      return null;
+    }
+
+    this.requestDuration ??= this.meter.createHistogram('phlag.client.request.duration', {
+      description: 'Duration of requests to the Phlag server',
+      unit: 'ms',
+    });
+    return this.requestDuration;
+  }
+}
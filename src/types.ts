@@ -1,3 +1,5 @@
+import type { PhlagError } from './exceptions/index.js';
+
 /**
  * Type for flag values returned by the Phlag API
  *
@@ -18,19 +20,524 @@ export type FlagType = 'SWITCH' | 'INTEGER' | 'FLOAT' | 'STRING';
  */
 export type FlagCache = Record<string, FlagValue>;
 
+/**
+ * Constraint for a type describing an environment's flags
+ *
+ * Maps each flag name to the type of its value, for example
+ * `{ feature_checkout: boolean; max_items: number }`. Both interfaces and
+ * type aliases satisfy it.
+ */
+export type FlagDefinitions<TFlags> = { [K in keyof TFlags]: FlagValue };
+
+/**
+ * The flag names of a flag definitions type
+ */
+export type FlagName<TFlags> = keyof TFlags & string;
+
+/**
+ * Runtime declaration of a single flag
+ */
+export interface FlagSchemaEntry<T extends FlagValue = FlagValue> {
+  /**
+   * The flag's type in Phlag
+   */
+  type: FlagType;
+
+  /**
+   * Value used when the flag is null, missing from the API response, or
+   * doesn't match its type
+   */
+  default?: T | null;
+}
+
+/**
+ * Runtime declaration of an environment's flags, keyed by flag name
+ */
+export type FlagSchema<TFlags extends FlagDefinitions<TFlags> = FlagCache> = {
+  [K in keyof TFlags]: FlagSchemaEntry<TFlags[K]>;
+};
+
+/**
+ * A flag in an API response that doesn't match the schema
+ *
+ * - `missing`: the flag is declared in the schema but not in the response
+ * - `type`: the flag's value doesn't match its declared type
+ */
+export interface SchemaViolation {
+  /**
+   * The flag name
+   */
+  name: string;
+
+  /**
+   * Why the flag doesn't match the schema
+   */
+  reason: 'missing' | 'type';
+
+  /**
+   * The flag type declared in the schema
+   */
+  expected: FlagType;
+
+  /**
+   * The value in the response, or null when the flag is missing
+   */
+  value: FlagValue;
+}
+
+/**
+ * Details of a flag value that didn't match the type a typed accessor
+ * expected, such as a string returned for getInteger()
+ */
+export interface TypeMismatch {
+  /**
+   * The flag name
+   */
+  name: string;
+
+  /**
+   * The flag type the accessor expected
+   */
+  expected: FlagType;
+
+  /**
+   * The value returned by the API
+   */
+  value: FlagValue;
+}
+
+/**
+ * How getFlags() fetches flags when caching is disabled
+ *
+ * - `all-flags`: one request for every flag in the environment
+ * - `parallel`: one request per flag, with limited concurrency
+ */
+export type BatchStrategy = 'all-flags' | 'parallel';
+
+/**
+ * A flag snapshot along with the time it was fetched from the API
+ */
+export interface CacheEntry {
+  /**
+   * The flag values for the environment
+   */
+  flags: FlagCache;
+
+  /**
+   * When the flags were fetched, in milliseconds since the epoch
+   */
+  fetchedAt: number;
+}
+
+/**
+ * What a cache store knows about an entry without reading its flags
+ */
+export interface CacheMetadata {
+  /**
+   * When the flags were fetched, in milliseconds since the epoch
+   */
+  fetchedAt: number;
+}
+
+/**
+ * Persistent storage for flag snapshots
+ *
+ * PhlagClient keeps its working copy in memory and uses the store to share
+ * snapshots between processes, instances or page loads. Keys are derived
+ * from the base URL and environment, so one store can hold several
+ * environments. Entries past the cache TTL are ignored by the client, so a
+ * store may keep them or expire them as it likes.
+ *
+ * Implementations should report failures as misses (get, getMetadata) or
+ * log them (set, delete) rather than throw, so a broken store degrades to
+ * in-memory caching.
+ */
+export interface FlagCacheStore {
+  /**
+   * Reads a snapshot
+   *
+   * @param key - The cache key
+   * @returns The snapshot, or null if there is none
+   */
+  get(key: string): Promise<CacheEntry | null>;
+
+  /**
+   * Stores a snapshot, replacing any previous one
+   *
+   * @param key - The cache key
+   * @param entry - The snapshot to store
+   * @param ttl - The cache TTL in seconds, for stores that expire entries
+   */
+  set(key: string, entry: CacheEntry, ttl: number): Promise<void>;
+
+  /**
+   * Removes a snapshot
+   *
+   * @param key - The cache key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Reads when a snapshot was fetched without loading its flags, so the
+   * client can skip expired entries cheaply (optional)
+   *
+   * Only implement this when it is cheaper than get(), for example when the
+   * fetch time is stored apart from the flags. Without it the client reads
+   * the entry with get() and checks its age itself.
+   *
+   * @param key - The cache key
+   * @returns The entry's metadata, or null if there is none
+   */
+  getMetadata?(key: string): Promise<CacheMetadata | null>;
+
+  /**
+   * Calls the listener when the snapshot is changed elsewhere, such as in
+   * another browser tab (optional)
+   *
+   * @param key - The cache key
+   * @param listener - Receives the new snapshot, or null when it was removed
+   * @returns Stops listening
+   */
+  subscribe?(key: string, listener: (entry: CacheEntry | null) => void): () => void;
+
+  /**
+   * Takes an advisory lock on the key before a refresh from the API, so
+   * only one of the clients sharing the store refreshes it while the others
+   * wait for its snapshot (optional)
+   *
+   * @param key - The cache key
+   * @returns Releases the lock, or null if another client holds it
+   */
+  lock?(key: string): Promise<(() => Promise<void>) | null>;
+}
+
+/**
+ * Retry policy for API requests
+ *
+ * Only GET requests are retried; the flag stream reconnects on its own.
+ * Each attempt gets the full request timeout.
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts, including the first (default: 3)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay in milliseconds before the first retry, doubling with each
+   * further retry (default: 200)
+   */
+  baseDelay?: number;
+
+  /**
+   * Maximum delay in milliseconds between attempts (default: 5000)
+   */
+  maxDelay?: number;
+
+  /**
+   * Randomize each delay between zero and its calculated value
+   * (default: true)
+   */
+  jitter?: boolean;
+
+  /**
+   * Wait as long as the Retry-After header of a failed response asks.
+   * Requests asked to wait longer than maxDelay are not retried
+   * (default: true)
+   */
+  respectRetryAfter?: boolean;
+
+  /**
+   * HTTP status codes to retry (default: 408, 429, 500, 502, 503, 504)
+   */
+  retryOnStatus?: number[];
+
+  /**
+   * Error classes to retry, checked with instanceof (default: NetworkError)
+   */
+  retryOnErrors?: Array<abstract new (...args: never[]) => Error>;
+}
+
+/**
+ * State of the circuit breaker
+ *
+ * - `closed`: requests are sent normally
+ * - `open`: requests fail fast with a CircuitOpenError
+ * - `half-open`: the cool-down is over and a trial request decides whether
+ *   to close the breaker again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker settings
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive network failures or server errors (5xx) that open the
+   * breaker (default: 5)
+   */
+  failureThreshold?: number;
+
+  /**
+   * How long in milliseconds the breaker stays open before a trial request
+   * is let through (default: 30000)
+   */
+  cooldownPeriod?: number;
+}
+
+/**
+ * Function used to send HTTP requests
+ *
+ * Any implementation with the signature of the global fetch works, such as
+ * undici's fetch with a keep-alive agent, a proxy-aware fetch, or a test
+ * double. Streaming needs a Response with a readable body.
+ */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * An outgoing request to the Phlag API, passed to the onRequest interceptor
+ */
+export interface InterceptedRequest {
+  /**
+   * The API endpoint path (e.g., flag/production/feature_name)
+   */
+  endpoint: string;
+
+  /**
+   * The full request URL, which onRequest may change
+   */
+  url: string;
+
+  /**
+   * The request headers, which onRequest may change or add to
+   */
+  headers: Record<string, string>;
+}
+
+/**
+ * A response from the Phlag API, passed to the onResponse interceptor
+ */
+export interface InterceptedResponse {
+  /**
+   * The request as it was sent
+   */
+  request: InterceptedRequest;
+
+  /**
+   * The HTTP response. Its body is read by the client, so it must not be
+   * consumed here.
+   */
+  response: Response;
+
+  /**
+   * Milliseconds from sending the request to receiving the response
+   */
+  duration: number;
+}
+
+/**
+ * A failed request to the Phlag API, passed to the onError interceptor
+ */
+export interface InterceptedError {
+  /**
+   * The request as it was sent
+   */
+  request: InterceptedRequest;
+
+  /**
+   * The error that will be thrown for this attempt
+   */
+  error: PhlagError;
+
+  /**
+   * Milliseconds from sending the request to the failure
+   */
+  duration: number;
+}
+
+/**
+ * Hooks into each HTTP request the client sends
+ *
+ * Interceptors run once per attempt, so a retried request calls them again.
+ * They may be async, and the request waits for them. Errors they throw fail
+ * the request. An error from onRequest or onResponse is thrown as it is,
+ * without retries, and isn't passed to onError or counted by the circuit
+ * breaker.
+ */
+export interface RequestInterceptors {
+  /**
+   * Called before each request is sent. Change request.url or
+   * request.headers in place, for example to add tracing headers or sign
+   * the request.
+   */
+  onRequest?: (request: InterceptedRequest) => void | Promise<void>;
+
+  /**
+   * Called when a response arrives, including error statuses
+   */
+  onResponse?: (response: InterceptedResponse) => void | Promise<void>;
+
+  /**
+   * Called when a request fails, whether it got an error response or
+   * didn't get a response at all
+   */
+  onError?: (error: InterceptedError) => void | Promise<void>;
+}
+
+/**
+ * Span and metric attributes recorded by the client
+ */
+export type TelemetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The parts of an OpenTelemetry span the client uses
+ *
+ * These mirror the @opentelemetry/api interfaces, so its objects can be
+ * passed in without the client's type definitions depending on the package.
+ */
+export interface TelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setAttributes(attributes: TelemetryAttributes): unknown;
+  recordException(exception: Error): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * The parts of an OpenTelemetry tracer the client uses
+ */
+export interface TelemetryTracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: TelemetryAttributes }
+  ): TelemetrySpan;
+  startActiveSpan<F extends (span: TelemetrySpan) => unknown>(
+    name: string,
+    options: { attributes?: TelemetryAttributes },
+    fn: F
+  ): ReturnType<F>;
+}
+
+/**
+ * The parts of an OpenTelemetry counter the client uses
+ */
+export interface TelemetryCounter {
+  add(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * The parts of an OpenTelemetry histogram the client uses
+ */
+export interface TelemetryHistogram {
+  record(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * The parts of an OpenTelemetry meter the client uses
+ */
+export interface TelemetryMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): TelemetryCounter;
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): TelemetryHistogram;
+}
+
+/**
+ * OpenTelemetry instrumentation settings
+ *
+ * Pass a tracer and meter from @opentelemetry/api, for example
+ * `trace.getTracer('phlag')` and `metrics.getMeter('phlag')`. Either may be
+ * left out to record only spans or only metrics.
+ */
+export interface TelemetryOptions {
+  /**
+   * Records a span for each HTTP request and flag read
+   */
+  tracer?: TelemetryTracer;
+
+  /**
+   * Records request latency, error counts and cache metrics
+   */
+  meter?: TelemetryMeter;
+}
+
+/**
+ * Supplies the API key, for example from a secrets manager
+ */
+export type ApiKeyProvider = () => string | Promise<string>;
+
+/**
+ * Options for the low-level HTTP client
+ */
+export interface ClientOptions {
+  /**
+   * Headers sent with every request. An Authorization header here replaces
+   * the Bearer API key (default: none)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Supplies the API key when none was passed to the constructor, and a
+   * new one after a request fails with an AuthenticationError
+   * (default: none)
+   */
+  getApiKey?: ApiKeyProvider;
+
+  /**
+   * Sends the HTTP requests (default: the global fetch)
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * Retry policy for failed requests (default: no retries)
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Fail fast while the server is down (default: no circuit breaker)
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+
+  /**
+   * Hooks called for each HTTP request (default: none)
+   */
+  interceptors?: RequestInterceptors;
+
+  /**
+   * OpenTelemetry tracer and meter for requests (default: none)
+   */
+  telemetry?: TelemetryOptions;
+}
+
 /**
  * Options for creating a PhlagClient instance
  */
-export interface PhlagClientOptions {
+export interface PhlagClientOptions<TFlags extends FlagDefinitions<TFlags> = FlagCache> {
   /**
    * Base URL of the Phlag server (e.g., http://localhost:8000)
    */
   baseUrl: string;
 
   /**
-   * 64-character API key for authentication
+   * 64-character API key for authentication. Required unless getApiKey or
+   * an Authorization header is set.
+   */
+  apiKey?: string;
+
+  /**
+   * Supplies the API key, on the first request when apiKey isn't set and
+   * again whenever a request fails with an AuthenticationError. The failed
+   * request is retried once with the new key, so keys can be rotated
+   * without recreating the client.
    */
-  apiKey: string;
+  getApiKey?: ApiKeyProvider;
+
+  /**
+   * Headers sent with every request. An Authorization header here replaces
+   * the Bearer API key (default: none)
+   */
+  headers?: Record<string, string>;
 
   /**
    * Environment name to query (e.g., production, staging, development)
@@ -42,18 +549,321 @@ export interface PhlagClientOptions {
    */
   timeout?: number;
 
+  /**
+   * Sends the HTTP requests (default: the global fetch). Required on
+   * runtimes without a global fetch.
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * Retry policy for failed requests (default: no retries). Pass an empty
+   * object to retry with the default settings.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Stop sending requests for a cool-down period after repeated failures,
+   * failing fast or falling back to cached and default values instead
+   * (default: no circuit breaker). Pass an empty object to use the default
+   * settings.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+
+  /**
+   * Hooks called for each HTTP request, to change its URL or headers or to
+   * observe responses and failures (default: none)
+   */
+  interceptors?: RequestInterceptors;
+
+  /**
+   * OpenTelemetry tracer and meter for spans and metrics on requests, flag
+   * reads and the cache (default: none)
+   */
+  telemetry?: TelemetryOptions;
+
   /**
    * Enable caching (default: false)
    */
   cache?: boolean;
 
   /**
-   * Custom cache file path (Node.js only, default: auto-generated in temp dir)
+   * Custom cache file path (Node.js only, default: auto-generated in
+   * cacheDir). Ignored when cacheStore is set.
    */
   cacheFile?: string;
 
+  /**
+   * Directory for the auto-generated cache file (Node.js only, default: the
+   * system temp directory). It must already exist.
+   */
+  cacheDir?: string;
+
+  /**
+   * Permissions for the cache file (Node.js only, default: 0o600, owner
+   * only)
+   */
+  cacheFileMode?: number;
+
+  /**
+   * Encrypt and authenticate the cache file with AES-256-GCM (Node.js only,
+   * default: none). Pass a 32-byte key, or a long random secret that is
+   * hashed into one. Unencrypted or differently keyed files are ignored.
+   */
+  cacheEncryptionKey?: string | Uint8Array;
+
   /**
    * Cache time-to-live in seconds (default: 300)
    */
   cacheTtl?: number;
+
+  /**
+   * Where snapshots are persisted between processes, instances or page
+   * loads (default: a FileCacheStore in Node.js, a BrowserCacheStore in
+   * browsers)
+   */
+  cacheStore?: FlagCacheStore;
+
+  /**
+   * Serve expired cache data while refreshing it in the background
+   * (default: false)
+   */
+  staleWhileRevalidate?: boolean;
+
+  /**
+   * How long in seconds past the cache TTL stale data may be served before
+   * refresh errors are thrown again (default: 3600)
+   */
+  maxStaleness?: number;
+
+  /**
+   * Interval in seconds between background refreshes once start() is
+   * called (default: 0, polling disabled)
+   */
+  pollInterval?: number;
+
+  /**
+   * Receive flag updates over a Server-Sent Events stream once start() is
+   * called, falling back to polling if the server doesn't offer one
+   * (default: false)
+   */
+  stream?: boolean;
+
+  /**
+   * Delay in milliseconds before the first stream reconnect attempt,
+   * doubling with each failure (default: 1000)
+   */
+  streamReconnectDelay?: number;
+
+  /**
+   * Maximum delay in milliseconds between stream reconnect attempts
+   * (default: 30000)
+   */
+  streamMaxReconnectDelay?: number;
+
+  /**
+   * How getFlags() fetches flags when caching is disabled
+   * (default: 'all-flags')
+   */
+  batchStrategy?: BatchStrategy;
+
+  /**
+   * Maximum concurrent requests for the 'parallel' batch strategy
+   * (default: 5)
+   */
+  batchConcurrency?: number;
+
+  /**
+   * Called when a typed accessor such as getInteger() reads a value of the
+   * wrong type (default: log a warning)
+   */
+  onTypeMismatch?: (mismatch: TypeMismatch) => void;
+
+  /**
+   * Declares each flag's type and default value. Responses from the
+   * /all-flags endpoint are validated against it, and defaults are used for
+   * flags that are null, missing or of the wrong type.
+   *
+   * Flag types come only from the client's type argument; a schema given to
+   * an untyped client doesn't narrow its flag names.
+   */
+  schema?: NoInfer<FlagSchema<TFlags>>;
+
+  /**
+   * Called for each flag in an API response that doesn't match the schema
+   * (default: log a warning)
+   */
+  onSchemaViolation?: (violation: SchemaViolation) => void;
+
+  /**
+   * Fallback value for each flag, returned when the flag is missing from
+   * the environment or the server can't be reached
+   */
+  defaults?: NoInfer<Partial<TFlags>>;
+
+  /**
+   * Initial flag values, such as a snapshot embedded in server-rendered
+   * HTML. With caching enabled it is served until the first fetch from the
+   * server succeeds; otherwise its values are used when the server can't
+   * be reached.
+   */
+  bootstrap?: FlagCache;
+
+  /**
+   * Called for every flag read through getFlag(), isEnabled() and the typed
+   * accessors, with the value returned and where it came from. Reads that
+   * throw aren't reported. See ExposureExporter for batching the calls.
+   */
+  onEvaluation?: (evaluation: FlagEvaluation) => void;
+
+  /**
+   * Throw an InvalidFlagError from getFlag() when caching is enabled and
+   * the flag isn't in the cached snapshot, as uncached reads do. Flags with
+   * a value in the defaults option still return it (default: false)
+   */
+  strict?: boolean;
+
+  /**
+   * Called with the name of a flag that isn't in the cached snapshot and
+   * has no default, whether or not strict is set (default: none)
+   */
+  onUnknownFlag?: (name: string) => void;
+
+  /**
+   * Count reads per flag name for getUsageReport() (default: false)
+   */
+  trackUsage?: boolean;
+}
+
+/**
+ * Where a flag value came from
+ *
+ * - `network`: a request made for this read
+ * - `memory`: the in-memory cache, without a request
+ * - `file`: the cache store (the cache file by default), loaded for this read
+ * - `bootstrap`: the bootstrap option
+ * - `default`: the defaults option or a schema default
+ */
+export type FlagSource = 'network' | 'memory' | 'file' | 'bootstrap' | 'default';
+
+/**
+ * A single flag read, passed to the onEvaluation option
+ */
+export interface FlagEvaluation {
+  /**
+   * The flag name
+   */
+  name: string;
+
+  /**
+   * The value returned to the caller
+   */
+  value: FlagValue;
+
+  /**
+   * The environment the flag was read from
+   */
+  environment: string;
+
+  /**
+   * Where the value came from
+   */
+  source: FlagSource;
+
+  /**
+   * When the flag was read, in milliseconds since the epoch
+   */
+  timestamp: number;
+}
+
+/**
+ * Flag usage compared with the flags on the server, from getUsageReport()
+ *
+ * Contains only plain values, so it can be serialized with JSON.stringify().
+ */
+export interface FlagUsageReport {
+  /**
+   * The environment the report covers
+   */
+  environment: string;
+
+  /**
+   * When counting started, in milliseconds since the epoch
+   */
+  since: number;
+
+  /**
+   * When the report was generated, in milliseconds since the epoch
+   */
+  generatedAt: number;
+
+  /**
+   * Read count and time of the last read (milliseconds since the epoch) for
+   * each flag name that was read
+   */
+  reads: Record<string, { count: number; lastReadAt: number }>;
+
+  /**
+   * Flags that exist on the server but were never read, candidates for
+   * cleanup
+   */
+  neverRead: string[];
+
+  /**
+   * Flag names that were read but don't exist on the server, such as typos
+   * or flags that have been deleted
+   */
+  missing: string[];
+}
+
+/**
+ * Payload of the `change` event, emitted once per flag whose value differs
+ * between two snapshots
+ *
+ * Flags that were added or removed are reported with a null old or new value.
+ */
+export interface FlagChangeEvent {
+  /**
+   * The flag name
+   */
+  name: string;
+
+  /**
+   * The value in the previous snapshot
+   */
+  oldValue: FlagValue;
+
+  /**
+   * The value in the new snapshot
+   */
+  newValue: FlagValue;
+}
+
+/**
+ * Payload of the `refresh` event, emitted whenever a new snapshot replaces
+ * the in-memory cache
+ */
+export interface FlagRefreshEvent {
+  /**
+   * The new flag values
+   */
+  flags: FlagCache;
+
+  /**
+   * Names of the flags that changed from the previous snapshot
+   */
+  changed: string[];
+
+  /**
+   * When the flags were fetched, in milliseconds since the epoch
+   */
+  fetchedAt: number;
+}
+
+/**
+ * Events emitted by PhlagClient and their payload types
+ */
+export interface PhlagClientEvents {
+  change: FlagChangeEvent;
+  refresh: FlagRefreshEvent;
+  error: Error;
 }
@@ -0,0 +1,59 @@
+import type { FlagUsageReport } from './types.js';
+
+/**
+ * Counts flag reads so they can be compared with the flags on the server
+ *
+ * Used by PhlagClient when the trackUsage option is set. Counts are kept in
+ * memory for the life of the process, one entry per distinct flag name.
+ */
+export class UsageTracker {
+  private readonly reads = new Map<string, { count: number; lastReadAt: number }>();
+  private since = Date.now();
+
+  /**
+   * Counts a read of a flag
+   *
+   * @param name - The flag name
+   */
+  record(name: string): void {
+    const entry = this.reads.get(name);
+    if (entry) {
+      entry.count++;
+      entry.lastReadAt = Date.now();
+    } else {
+      this.reads.set(name, { count: 1, lastReadAt: Date.now() });
+    }
+  }
+
+  /**
+   * Compares the counted reads with the flags that exist on the server
+   *
+   * @param environment - The environment the flags belong to
+   * @param serverFlags - Names of all flags on the server
+   * @returns The usage report
+   */
+  report(environment: string, serverFlags: string[]): FlagUsageReport {
+    const existing = new Set(serverFlags);
+    const reads: FlagUsageReport['reads'] = {};
+    for (const name of [...this.reads.keys()].sort()) {
+      reads[name] = { ...this.reads.get(name)! };
+    }
+
+    return {
+      environment,
+      since: this.since,
+      generatedAt: Date.now(),
+      reads,
+      neverRead: [...existing].filter((name) => !this.reads.has(name)).sort(),
+      missing: Object.keys(reads).filter((name) => !existing.has(name)),
+    };
+  }
+
+  /**
+   * Clears all counts and restarts the tracking period
+   */
+  reset(): void {
+    this.reads.clear();
+    this.since = Date.now();
+  }
+}
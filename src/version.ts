@@ -0,0 +1,6 @@
+/**
+ * The client's version, recorded in cache files
+ *
+ * Kept in sync with the version in package.json.
+ */
+export const CLIENT_VERSION = '0.1.0';
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker, isServerFailure } from '../src/CircuitBreaker.js';
+import {
+  AuthenticationError,
+  CircuitOpenError,
+  NetworkError,
+  PhlagError,
+} from '../src/exceptions/index.js';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      breaker.acquire();
+      breaker.recordFailure();
+    }
+  };
+
+  beforeEach(() => {
+    now = 1_000_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    breaker = new CircuitBreaker(3, 10000);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should start closed', () => {
+    expect(breaker.getState()).toBe('closed');
+    expect(() => breaker.acquire()).not.toThrow();
+  });
+
+  it('should open after the failure threshold', () => {
+    fail(2);
+    expect(breaker.getState()).toBe('closed');
+
+    fail(1);
+    expect(breaker.getState()).toBe('open');
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+  });
+
+  it('should only count consecutive failures', () => {
+    fail(2);
+    breaker.acquire();
+    breaker.recordSuccess();
+    fail(2);
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should let one trial request through after the cool-down', () => {
+    fail(3);
+    now += 10000;
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(() => breaker.acquire()).not.toThrow();
+    // Other requests fail fast while the trial is in flight
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+  });
+
+  it('should close when the trial request succeeds', () => {
+    fail(3);
+    now += 10000;
+    breaker.acquire();
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should reopen when the trial request fails', () => {
+    fail(3);
+    now += 10000;
+    breaker.acquire();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    now += 9999;
+    expect(breaker.getState()).toBe('open');
+    now += 1;
+    expect(breaker.getState()).toBe('half-open');
+  });
+
+  it('should let another trial through when the trial is released', () => {
+    fail(3);
+    now += 10000;
+    breaker.acquire();
+    breaker.release();
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(() => breaker.acquire()).not.toThrow();
+  });
+
+  describe('isServerFailure', () => {
+    it('should count network failures and server errors', () => {
+      expect(isServerFailure(new NetworkError('timeout'))).toBe(true);
+      expect(isServerFailure(new PhlagError('HTTP error 503', 503))).toBe(true);
+    });
+
+    it('should not count errors from a working server', () => {
+      expect(isServerFailure(new AuthenticationError('Invalid API key'))).toBe(false);
+      expect(isServerFailure(new PhlagError('HTTP error 429', 429))).toBe(false);
+      expect(isServerFailure(new Error('other'))).toBe(false);
+    });
+  });
+});
@@ -6,6 +6,7 @@ import {
   InvalidEnvironmentError,
   NetworkError,
   PhlagError,
+  CircuitOpenError,
 } from '../src/exceptions/index.js';
 
 // Mock fetch globally
@@ -202,4 +203,541 @@ describe('Client', () => {
       );
     });
   });
+
+  describe('retry', () => {
+    const retry = { baseDelay: 1, maxDelay: 10, jitter: false };
+
+    const failWith = (status: number, headers?: Record<string, string>) =>
+      (fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status,
+        headers: new Headers(headers),
+        text: async () => '',
+      });
+
+    const succeedWith = (body: string) =>
+      (fetch as any).mockResolvedValueOnce({ ok: true, status: 200, text: async () => body });
+
+    beforeEach(() => {
+      (fetch as any).mockReset();
+    });
+
+    afterEach(() => {
+      // Drop responses that were queued but never requested
+      (fetch as any).mockReset();
+      vi.useRealTimers();
+    });
+
+    it('should not retry without a retry policy', async () => {
+      failWith(503);
+      succeedWith('true');
+
+      await expect(client.get('flag/production/test')).rejects.toThrow(PhlagError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry transient server errors', async () => {
+      const retryingClient = new Client(baseUrl, apiKey, 1000, { retry });
+      failWith(502);
+      failWith(503);
+      succeedWith('true');
+
+      expect(await retryingClient.get('flag/production/test')).toBe(true);
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry network errors', async () => {
+      const retryingClient = new Client(baseUrl, apiKey, 1000, { retry });
+      (fetch as any).mockRejectedValueOnce(new Error('Connection reset'));
+      succeedWith('42');
+
+      expect(await retryingClient.get('flag/production/test')).toBe(42);
+    });
+
+    it('should throw the last error once attempts run out', async () => {
+      const retryingClient = new Client(baseUrl, apiKey, 1000, {
+        retry: { ...retry, maxAttempts: 2 },
+      });
+      failWith(503);
+      failWith(500);
+      succeedWith('true');
+
+      await expect(retryingClient.get('flag/production/test')).rejects.toMatchObject({
+        code: 500,
+      });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should never retry client errors by default', async () => {
+      const retryingClient = new Client(baseUrl, apiKey, 1000, { retry });
+
+      failWith(401);
+      await expect(retryingClient.get('flag/production/test')).rejects.toThrow(AuthenticationError);
+      failWith(404);
+      await expect(retryingClient.get('flag/production/test')).rejects.toThrow(InvalidFlagError);
+      failWith(404);
+      await expect(retryingClient.get('all-flags/staging')).rejects.toThrow(
+        InvalidEnvironmentError
+      );
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should only retry the configured statuses and error classes', async () => {
+      const retryingClient = new Client(baseUrl, apiKey, 1000, {
+        retry: { ...retry, retryOnStatus: [503], retryOnErrors: [] },
+      });
+
+      failWith(502);
+      await expect(retryingClient.get('flag/production/test')).rejects.toThrow(PhlagError);
+      (fetch as any).mockRejectedValueOnce(new Error('Connection reset'));
+      await expect(retryingClient.get('flag/production/test')).rejects.toThrow(NetworkError);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should wait as long as Retry-After asks', async () => {
+      vi.useFakeTimers();
+      const retryingClient = new Client(baseUrl, apiKey, 1000, {
+        retry: { ...retry, maxDelay: 5000 },
+      });
+      failWith(429, { 'Retry-After': '2' });
+      succeedWith('true');
+
+      const result = retryingClient.get('flag/production/test');
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(await result).toBe(true);
+    });
+
+    it('should give up when Retry-After is longer than maxDelay', async () => {
+      const retryingClient = new Client(baseUrl, apiKey, 1000, { retry });
+      failWith(503, { 'Retry-After': '120' });
+      succeedWith('true');
+
+      await expect(retryingClient.get('flag/production/test')).rejects.toMatchObject({
+        code: 503,
+      });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('fetch option', () => {
+    it('should send requests with the injected fetch', async () => {
+      const customFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => 'true',
+      });
+      const customClient = new Client(baseUrl, apiKey, 1000, { fetch: customFetch });
+
+      expect(await customClient.get('flag/production/test')).toBe(true);
+      expect(customFetch).toHaveBeenCalledWith(
+        'http://localhost:8000/flag/production/test',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should throw when there is no global fetch', async () => {
+      vi.stubGlobal('fetch', undefined);
+      try {
+        await expect(client.get('flag/production/test')).rejects.toThrow(
+          'No global fetch is available'
+        );
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe('authentication', () => {
+    const ok = (text: string) => ({ ok: true, status: 200, text: async () => text });
+    const unauthorized = { ok: false, status: 401, text: async () => '' };
+
+    it('should send the headers option with every request', async () => {
+      const headersClient = new Client(baseUrl, apiKey, 1000, {
+        headers: { 'X-Tenant-Id': 'acme' },
+      });
+      (fetch as any).mockResolvedValueOnce(ok('true'));
+
+      await headersClient.get('flag/production/test');
+
+      expect(fetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            'X-Tenant-Id': 'acme',
+            Accept: 'application/json',
+          },
+        })
+      );
+    });
+
+    it('should let the headers option replace the Authorization header', async () => {
+      const headersClient = new Client(baseUrl, '', 1000, {
+        headers: { Authorization: 'Basic dXNlcjpwYXNz' },
+      });
+      (fetch as any).mockResolvedValueOnce(ok('true'));
+
+      await headersClient.get('flag/production/test');
+
+      expect((fetch as any).mock.calls[0][1].headers.Authorization).toBe('Basic dXNlcjpwYXNz');
+    });
+
+    it('should get the API key from getApiKey on the first request', async () => {
+      const getApiKey = vi.fn().mockResolvedValue('vault-key');
+      const providerClient = new Client(baseUrl, '', 1000, { getApiKey });
+      (fetch as any).mockResolvedValue(ok('true'));
+
+      await providerClient.get('flag/production/one');
+      await providerClient.get('flag/production/two');
+
+      expect(getApiKey).toHaveBeenCalledTimes(1);
+      expect((fetch as any).mock.calls[1][1].headers.Authorization).toBe('Bearer vault-key');
+    });
+
+    it('should refresh the API key and retry once after an AuthenticationError', async () => {
+      const getApiKey = vi.fn().mockResolvedValue('rotated-key');
+      const providerClient = new Client(baseUrl, apiKey, 1000, { getApiKey });
+      (fetch as any).mockResolvedValueOnce(unauthorized).mockResolvedValueOnce(ok('100'));
+
+      expect(await providerClient.get('flag/production/max_items')).toBe(100);
+      expect(getApiKey).toHaveBeenCalledTimes(1);
+      expect((fetch as any).mock.calls[1][1].headers.Authorization).toBe('Bearer rotated-key');
+    });
+
+    it('should throw when the refreshed API key is also rejected', async () => {
+      const getApiKey = vi.fn().mockResolvedValue('still-wrong');
+      const providerClient = new Client(baseUrl, apiKey, 1000, { getApiKey });
+      (fetch as any).mockResolvedValue(unauthorized);
+
+      await expect(providerClient.get('flag/production/test')).rejects.toThrow(AuthenticationError);
+      expect(getApiKey).toHaveBeenCalledTimes(1);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry an AuthenticationError without getApiKey', async () => {
+      (fetch as any).mockResolvedValue(unauthorized);
+
+      await expect(client.get('flag/production/test')).rejects.toThrow(AuthenticationError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('interceptors', () => {
+    it('should let onRequest change the URL and headers', async () => {
+      const interceptedClient = new Client(baseUrl, apiKey, 1000, {
+        interceptors: {
+          onRequest: async (request) => {
+            request.url += '?tenant=acme';
+            request.headers['X-Trace-Id'] = 'trace-123';
+          },
+        },
+      });
+      (fetch as any).mockResolvedValueOnce({ ok: true, status: 200, text: async () => 'true' });
+
+      await interceptedClient.get('flag/production/test');
+
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:8000/flag/production/test?tenant=acme',
+        expect.objectContaining({
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            Accept: 'application/json',
+            'X-Trace-Id': 'trace-123',
+          },
+        })
+      );
+    });
+
+    it('should call onResponse with the response and duration', async () => {
+      const onResponse = vi.fn();
+      const interceptedClient = new Client(baseUrl, apiKey, 1000, {
+        interceptors: { onResponse },
+      });
+      const response = { ok: true, status: 200, text: async () => '100' };
+      (fetch as any).mockResolvedValueOnce(response);
+
+      await interceptedClient.get('flag/production/max_items');
+
+      expect(onResponse).toHaveBeenCalledWith({
+        request: expect.objectContaining({ endpoint: 'flag/production/max_items' }),
+        response,
+        duration: expect.any(Number),
+      });
+    });
+
+    it('should call onError for each failed attempt', async () => {
+      const onError = vi.fn();
+      const interceptedClient = new Client(baseUrl, apiKey, 1000, {
+        retry: { maxAttempts: 2, baseDelay: 1, jitter: false },
+        interceptors: { onError },
+      });
+      (fetch as any).mockRejectedValue(new Error('Connection refused'));
+
+      await expect(interceptedClient.get('flag/production/test')).rejects.toThrow(NetworkError);
+
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError.mock.calls[0][0].error).toBeInstanceOf(NetworkError);
+    });
+
+    it('should fail the request when onRequest throws', async () => {
+      const interceptedClient = new Client(baseUrl, apiKey, 1000, {
+        interceptors: {
+          onRequest: () => {
+            throw new Error('Signing failed');
+          },
+        },
+      });
+
+      await expect(interceptedClient.get('flag/production/test')).rejects.toThrow('Signing failed');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should throw interceptor errors as they are, without retrying', async () => {
+      const hookError = new TypeError('response.headers.get is not a function');
+      const onError = vi.fn();
+      const interceptedClient = new Client(baseUrl, apiKey, 1000, {
+        retry: { maxAttempts: 3, baseDelay: 1, jitter: false },
+        circuitBreaker: { failureThreshold: 1 },
+        interceptors: {
+          onResponse: () => {
+            throw hookError;
+          },
+          onError,
+        },
+      });
+      (fetch as any).mockResolvedValue({ ok: true, status: 200, text: async () => 'true' });
+
+      await expect(interceptedClient.get('flag/production/test')).rejects.toBe(hookError);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(onError).not.toHaveBeenCalled();
+      expect(interceptedClient.getCircuitState()).toBe('closed');
+      (fetch as any).mockReset();
+    });
+
+    it('should handle onRequest errors like onResponse errors', async () => {
+      const hookError = new Error('Signing failed');
+      const onError = vi.fn();
+      const interceptedClient = new Client(baseUrl, apiKey, 1000, {
+        retry: { maxAttempts: 3, baseDelay: 1, jitter: false },
+        circuitBreaker: { failureThreshold: 1 },
+        interceptors: {
+          onRequest: () => {
+            throw hookError;
+          },
+          onError,
+        },
+      });
+
+      await expect(interceptedClient.get('flag/production/test')).rejects.toBe(hookError);
+      await expect(
+        interceptedClient.stream('stream/production', { onEvent: vi.fn() })
+      ).rejects.toBe(hookError);
+
+      expect(onError).not.toHaveBeenCalled();
+      expect(interceptedClient.getCircuitState()).toBe('closed');
+    });
+  });
+
+  describe('request coalescing', () => {
+    it('should share one request between concurrent calls for the same endpoint', async () => {
+      (fetch as any).mockResolvedValueOnce({ ok: true, status: 200, text: async () => '100' });
+
+      const results = await Promise.all([
+        client.get('flag/production/max_items'),
+        client.get('flag/production/max_items'),
+        client.get('flag/production/max_items'),
+      ]);
+
+      expect(results).toEqual([100, 100, 100]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not share requests between different endpoints', async () => {
+      (fetch as any)
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => 'true' })
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => '100' });
+
+      const results = await Promise.all([
+        client.get('flag/production/feature_checkout'),
+        client.get('flag/production/max_items'),
+      ]);
+
+      expect(results).toEqual([true, 100]);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give each caller its own copy of an object response', async () => {
+      (fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ feature_one: true }),
+      });
+
+      const [first, second] = await Promise.all([
+        client.get('all-flags/production', true),
+        client.get('all-flags/production', true),
+      ]);
+      first.feature_one = false;
+
+      expect(second).toEqual({ feature_one: true });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject every caller and send a new request on the next call', async () => {
+      (fetch as any)
+        .mockRejectedValueOnce(new Error('Connection refused'))
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => '100' });
+
+      const results = await Promise.allSettled([
+        client.get('flag/production/max_items'),
+        client.get('flag/production/max_items'),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+      expect(await client.get('flag/production/max_items')).toBe(100);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    beforeEach(() => {
+      (fetch as any).mockReset();
+    });
+
+    afterEach(() => {
+      (fetch as any).mockReset();
+    });
+
+    it('should fail fast once the breaker opens', async () => {
+      const breakerClient = new Client(baseUrl, apiKey, 1000, {
+        circuitBreaker: { failureThreshold: 2, cooldownPeriod: 60000 },
+      });
+      (fetch as any).mockRejectedValue(new Error('Connection refused'));
+
+      await expect(breakerClient.get('flag/production/test')).rejects.toThrow(NetworkError);
+      await expect(breakerClient.get('flag/production/test')).rejects.toThrow(NetworkError);
+      expect(breakerClient.getCircuitState()).toBe('open');
+
+      await expect(breakerClient.get('flag/production/test')).rejects.toThrow(CircuitOpenError);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not count client errors as failures', async () => {
+      const breakerClient = new Client(baseUrl, apiKey, 1000, {
+        circuitBreaker: { failureThreshold: 1 },
+      });
+      (fetch as any).mockResolvedValue({ ok: false, status: 401, text: async () => '' });
+
+      await expect(breakerClient.get('flag/production/test')).rejects.toThrow(AuthenticationError);
+      expect(breakerClient.getCircuitState()).toBe('closed');
+    });
+
+    it('should stop retrying once the breaker opens', async () => {
+      const breakerClient = new Client(baseUrl, apiKey, 1000, {
+        retry: { maxAttempts: 5, baseDelay: 1, jitter: false },
+        circuitBreaker: { failureThreshold: 2 },
+      });
+      (fetch as any).mockResolvedValue({ ok: false, status: 503, text: async () => '' });
+
+      await expect(breakerClient.get('flag/production/test')).rejects.toThrow(CircuitOpenError);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report closed without a breaker', () => {
+      expect(client.getCircuitState()).toBe('closed');
+    });
+  });
+
+  describe('stream', () => {
+    const streamBody = (chunks: string[]) =>
+      new ReadableStream({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue(new TextEncoder().encode(chunk));
+          }
+          controller.close();
+        },
+      });
+
+    it('should pass parsed events to the handler', async () => {
+      (fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'Content-Type': 'text/event-stream; charset=utf-8' }),
+        body: streamBody(['event: flag\ndata: {"name":"a",', '"value":true}\n\n']),
+      });
+
+      const onOpen = vi.fn();
+      const onEvent = vi.fn();
+      await client.stream('stream/production', { onOpen, onEvent });
+
+      expect(onOpen).toHaveBeenCalledTimes(1);
+      expect(onEvent).toHaveBeenCalledWith({ event: 'flag', data: '{"name":"a","value":true}' });
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:8000/stream/production',
+        expect.objectContaining({
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            Accept: 'text/event-stream',
+          },
+        })
+      );
+    });
+
+    it('should throw InvalidEnvironmentError on 404', async () => {
+      (fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () => 'Not Found',
+      });
+
+      await expect(client.stream('stream/production', { onEvent: vi.fn() })).rejects.toThrow(
+        InvalidEnvironmentError
+      );
+    });
+
+    it('should reject responses that are not event streams', async () => {
+      (fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'Content-Type': 'application/json' }),
+        body: streamBody(['{}']),
+      });
+
+      const onOpen = vi.fn();
+      const error = await client
+        .stream('stream/production', { onOpen, onEvent: vi.fn() })
+        .catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(PhlagError);
+      expect((error as PhlagError).code).toBe(406);
+      expect(onOpen).not.toHaveBeenCalled();
+    });
+
+    it('should resolve quietly when aborted', async () => {
+      const controller = new AbortController();
+      (fetch as any).mockImplementationOnce((_url: string, init: RequestInit) => {
+        return new Promise((_, reject) => {
+          init.signal!.addEventListener('abort', () => {
+            const error = new Error('Aborted');
+            error.name = 'AbortError';
+            reject(error);
+          });
+        });
+      });
+
+      const promise = client.stream('stream/production', { onEvent: vi.fn() }, controller.signal);
+      controller.abort();
+
+      await expect(promise).resolves.toBeUndefined();
+    });
+  });
 });
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { PhlagClient } from '../src/PhlagClient.js';
+import { NetworkError, InvalidFlagError, PhlagError } from '../src/exceptions/index.js';
 import { existsSync } from 'fs';
-import { unlink } from 'fs/promises';
+import { mkdtemp, readFile, rm, stat, unlink } from 'fs/promises';
 import { tmpdir } from 'os';
 
 // Mock fetch globally
@@ -146,6 +147,57 @@ describe('PhlagClient with Caching', () => {
       expect(fetch).toHaveBeenCalledTimes(1); // Still only 1 call
     });
 
+    it('should fetch all flags once for concurrent requests on a cold cache', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+      });
+
+      cacheFile = client.getCacheFile();
+
+      (fetch as any).mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ feature_one: true, max_items: 100 }),
+      });
+
+      const results = await Promise.all(
+        Array.from({ length: 20 }, (_, i) => client.getFlag(i % 2 ? 'feature_one' : 'max_items'))
+      );
+
+      expect(results.filter((value) => value === true)).toHaveLength(10);
+      expect(results.filter((value) => value === 100)).toHaveLength(10);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject concurrent requests when the shared load fails', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+      });
+
+      cacheFile = client.getCacheFile();
+
+      (fetch as any).mockRejectedValueOnce(new Error('Connection refused')).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ feature_one: true }),
+      });
+
+      const results = await Promise.allSettled([
+        client.getFlag('feature_one'),
+        client.getFlag('feature_one'),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+      expect(await client.getFlag('feature_one')).toBe(true);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
     it('should return null for missing flags when cached', async () => {
       const client = new PhlagClient({
         baseUrl,
@@ -170,6 +222,392 @@ describe('PhlagClient with Caching', () => {
     });
   });
 
+  describe('strict mode', () => {
+    const snapshot = {
+      ok: true,
+      status: 200,
+      text: async () => JSON.stringify({ feature_one: true }),
+    };
+
+    it('should throw InvalidFlagError for flags missing from the snapshot', async () => {
+      const client = new PhlagClient({ baseUrl, apiKey, environment, cache: true, strict: true });
+      cacheFile = client.getCacheFile();
+      (fetch as any).mockResolvedValue(snapshot);
+
+      await expect(client.getFlag('feature_oen')).rejects.toThrow(InvalidFlagError);
+      expect(await client.getFlag('feature_one')).toBe(true);
+    });
+
+    it('should still return defaults for missing flags', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        strict: true,
+        defaults: { max_items: 50 },
+      });
+      cacheFile = client.getCacheFile();
+      (fetch as any).mockResolvedValue(snapshot);
+
+      expect(await client.getFlag('max_items')).toBe(50);
+    });
+
+    it('should call onUnknownFlag without strict mode', async () => {
+      const onUnknownFlag = vi.fn();
+      const client = new PhlagClient({ baseUrl, apiKey, environment, cache: true, onUnknownFlag });
+      cacheFile = client.getCacheFile();
+      (fetch as any).mockResolvedValue(snapshot);
+
+      expect(await client.getFlag('feature_oen')).toBeNull();
+      expect(await client.getFlag('feature_one')).toBe(true);
+      expect(onUnknownFlag).toHaveBeenCalledTimes(1);
+      expect(onUnknownFlag).toHaveBeenCalledWith('feature_oen');
+    });
+
+    it('should log errors thrown by onUnknownFlag without strict mode', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        onUnknownFlag: () => {
+          throw new Error('reporter down');
+        },
+      });
+      cacheFile = client.getCacheFile();
+      (fetch as any).mockResolvedValue(snapshot);
+
+      expect(await client.getFlag('feature_oen')).toBeNull();
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Phlag: Error in onUnknownFlag callback',
+        expect.any(Error)
+      );
+    });
+
+    it('should not report flags missing from a bootstrap snapshot', async () => {
+      const onUnknownFlag = vi.fn();
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        strict: true,
+        onUnknownFlag,
+        bootstrap: { feature_one: true },
+      });
+      cacheFile = client.getCacheFile();
+      // The first fetch doesn't answer until the assertions are done
+      let answer!: (response: typeof snapshot) => void;
+      (fetch as any).mockReturnValueOnce(new Promise((resolve) => (answer = resolve)));
+
+      expect(await client.getFlag('feature_two')).toBeNull();
+      expect(onUnknownFlag).not.toHaveBeenCalled();
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+
+      // Let the refresh finish so it releases the cache file lock
+      answer(snapshot);
+      await vi.waitFor(() => expect(existsSync(`${cacheFile}.lock`)).toBe(false));
+    });
+  });
+
+  describe('getFlags with caching', () => {
+    it('should serve all requested flags from the cache', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        batchStrategy: 'parallel',
+      });
+
+      cacheFile = client.getCacheFile();
+
+      (fetch as any).mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ feature_one: true, max_items: 100 }),
+      });
+
+      const onMissing = vi.fn();
+      const result = await client.getFlags(['feature_one', 'max_items', 'typo_flag'], onMissing);
+
+      expect(result).toEqual({ feature_one: true, max_items: 100 });
+      expect(onMissing).toHaveBeenCalledWith(['typo_flag']);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(fetch).toHaveBeenCalledWith(`${baseUrl}/all-flags/${environment}`, expect.any(Object));
+
+      await client.getFlags(['feature_one']);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getAllFlags with caching', () => {
+    it('should return a copy of the cached flags', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+      });
+
+      cacheFile = client.getCacheFile();
+
+      (fetch as any).mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ feature_one: true }),
+      });
+
+      const flags = await client.getAllFlags();
+      expect(flags).toEqual({ feature_one: true });
+
+      flags.feature_one = false;
+      flags.injected = 'x';
+
+      expect(await client.getAllFlags()).toEqual({ feature_one: true });
+      expect(await client.getFlag('injected')).toBeNull();
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should serve expired flags while the breaker is open', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheTtl: 60,
+        circuitBreaker: { failureThreshold: 1, cooldownPeriod: 600_000 },
+      });
+
+      cacheFile = client.getCacheFile();
+
+      (fetch as any)
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          text: async () => JSON.stringify({ feature_one: true }),
+        })
+        .mockRejectedValueOnce(new Error('Connection refused'));
+
+      const now = Date.now();
+      const dateSpy = vi.spyOn(Date, 'now').mockReturnValue(now);
+      await client.warmCache();
+
+      // The failed refresh is thrown and opens the breaker
+      dateSpy.mockReturnValue(now + 61_000);
+      await expect(client.getFlag('feature_one')).rejects.toThrow(NetworkError);
+      expect(client.getCircuitState()).toBe('open');
+
+      // While it is open, the expired snapshot is served without a request
+      expect(await client.isEnabled('feature_one')).toBe(true);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cache expiration', () => {
+    it('should refetch all flags after the TTL expires', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheTtl: 60,
+      });
+
+      cacheFile = client.getCacheFile();
+
+      (fetch as any)
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          text: async () => JSON.stringify({ feature_one: false }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          text: async () => JSON.stringify({ feature_one: true }),
+        });
+
+      const now = Date.now();
+      const dateSpy = vi.spyOn(Date, 'now').mockReturnValue(now);
+
+      expect(await client.getFlag('feature_one')).toBe(false);
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      // Still within the TTL - served from memory
+      dateSpy.mockReturnValue(now + 59_000);
+      expect(await client.isEnabled('feature_one')).toBe(false);
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      // TTL expired - memory and file cache are both stale
+      dateSpy.mockReturnValue(now + 61_000);
+      expect(await client.isEnabled('feature_one')).toBe(true);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should expire memory loaded from file based on the file age', async () => {
+      const client1 = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheTtl: 60,
+      });
+
+      cacheFile = client1.getCacheFile();
+
+      (fetch as any).mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ feature_one: true }),
+      });
+
+      await client1.warmCache();
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      const client2 = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheTtl: 60,
+      });
+
+      // Loaded from file, no API call
+      await client2.getFlag('feature_one');
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      // The file was written "now", so the memory copy expires with it
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 61_000);
+      await client2.getFlag('feature_one');
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    const flagsResponse = (flags: Record<string, unknown>) => ({
+      ok: true,
+      status: 200,
+      text: async () => JSON.stringify(flags),
+    });
+
+    it('should serve expired data while one background refresh runs', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheTtl: 60,
+        staleWhileRevalidate: true,
+      });
+
+      cacheFile = client.getCacheFile();
+
+      let resolveRefresh: (value: unknown) => void = () => {};
+      (fetch as any)
+        .mockResolvedValueOnce(flagsResponse({ feature_one: false }))
+        .mockReturnValueOnce(new Promise((resolve) => (resolveRefresh = resolve)));
+
+      const now = Date.now();
+      const dateSpy = vi.spyOn(Date, 'now').mockReturnValue(now);
+      await client.warmCache();
+
+      dateSpy.mockReturnValue(now + 61_000);
+
+      // Expired data is returned without waiting for the refresh
+      expect(await client.getFlag('feature_one')).toBe(false);
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+      expect(await client.getFlag('feature_one')).toBe(false);
+
+      resolveRefresh(flagsResponse({ feature_one: true }));
+      await vi.waitFor(async () => {
+        expect(await client.getFlag('feature_one')).toBe(true);
+      });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep serving the last good snapshot when the refresh fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheTtl: 60,
+        staleWhileRevalidate: true,
+      });
+
+      cacheFile = client.getCacheFile();
+
+      (fetch as any)
+        .mockResolvedValueOnce(flagsResponse({ feature_one: true }))
+        .mockRejectedValue(new Error('Connection refused'));
+
+      const now = Date.now();
+      const dateSpy = vi.spyOn(Date, 'now').mockReturnValue(now);
+      await client.warmCache();
+
+      dateSpy.mockReturnValue(now + 120_000);
+      expect(await client.isEnabled('feature_one')).toBe(true);
+
+      await vi.waitFor(() => expect(consoleSpy).toHaveBeenCalled());
+      expect(await client.isEnabled('feature_one')).toBe(true);
+    });
+
+    it('should throw refresh errors once maxStaleness is exceeded', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheTtl: 60,
+        staleWhileRevalidate: true,
+        maxStaleness: 60,
+      });
+
+      cacheFile = client.getCacheFile();
+
+      (fetch as any)
+        .mockResolvedValueOnce(flagsResponse({ feature_one: true }))
+        .mockRejectedValue(new Error('Connection refused'));
+
+      const now = Date.now();
+      const dateSpy = vi.spyOn(Date, 'now').mockReturnValue(now);
+      await client.warmCache();
+
+      dateSpy.mockReturnValue(now + 121_000);
+      await expect(client.getFlag('feature_one')).rejects.toThrow(NetworkError);
+    });
+
+    it('should block on refresh when the mode is disabled', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheTtl: 60,
+      });
+
+      cacheFile = client.getCacheFile();
+
+      (fetch as any)
+        .mockResolvedValueOnce(flagsResponse({ feature_one: true }))
+        .mockRejectedValue(new Error('Connection refused'));
+
+      const now = Date.now();
+      const dateSpy = vi.spyOn(Date, 'now').mockReturnValue(now);
+      await client.warmCache();
+
+      dateSpy.mockReturnValue(now + 61_000);
+      await expect(client.getFlag('feature_one')).rejects.toThrow(NetworkError);
+    });
+  });
+
   describe('warmCache', () => {
     it('should preload cache immediately', async () => {
       const client = new PhlagClient({
@@ -377,4 +815,128 @@ describe('PhlagClient with Caching', () => {
       expect(fetch).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe('refresh lock', () => {
+    const sharedFile = `${tmpdir()}/phlag_lock_test.json`;
+
+    const allFlags = {
+      ok: true,
+      status: 200,
+      text: async () => JSON.stringify({ feature: true }),
+    };
+
+    afterEach(async () => {
+      await rm(sharedFile, { force: true });
+      await rm(`${sharedFile}.lock`, { force: true });
+    });
+
+    /**
+     * Creates a client sharing the cache file, as each cluster worker would
+     */
+    const worker = () =>
+      new PhlagClient({ baseUrl, apiKey, environment, cache: true, cacheFile: sharedFile });
+
+    it('should let one of several processes refresh while the others wait', async () => {
+      let answer!: (response: typeof allFlags) => void;
+      (fetch as any).mockReturnValueOnce(new Promise((resolve) => (answer = resolve)));
+      const workers = [worker(), worker(), worker()];
+
+      const reads = Promise.all(workers.map((client) => client.getFlag('feature')));
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+      answer(allFlags);
+
+      expect(await reads).toEqual([true, true, true]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(existsSync(`${sharedFile}.lock`)).toBe(false);
+    });
+
+    it('should take over the refresh when the lock holder fails', async () => {
+      (fetch as any)
+        .mockRejectedValueOnce(new Error('Connection refused'))
+        .mockResolvedValueOnce(allFlags);
+      const [first, second] = [worker(), worker()];
+
+      const [failed, succeeded] = await Promise.allSettled([
+        first.getFlag('feature'),
+        second.getFlag('feature'),
+      ]);
+
+      expect(failed.status).toBe('rejected');
+      expect(succeeded).toEqual({ status: 'fulfilled', value: true });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cache file location and encryption', () => {
+    let directory: string;
+
+    const allFlags = {
+      ok: true,
+      status: 200,
+      text: async () => JSON.stringify({ partner_endpoint: 'https://partner.example.com' }),
+    };
+
+    beforeEach(async () => {
+      directory = await mkdtemp(`${tmpdir()}/phlag_cache_dir_`);
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should generate the cache file in cacheDir', () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheDir: directory,
+      });
+
+      expect(client.getCacheFile()).toMatch(
+        new RegExp(`^${directory}/phlag_cache_[0-9a-f]{32}\\.json$`)
+      );
+      expect(client.withEnvironment('staging').getCacheFile().startsWith(directory)).toBe(true);
+    });
+
+    it('should share an encrypted cache file between clients with the same key', async () => {
+      const options = {
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheDir: directory,
+        cacheEncryptionKey: 'a-long-random-secret-from-the-environment',
+      };
+      (fetch as any).mockResolvedValue(allFlags);
+
+      const writer = new PhlagClient(options);
+      await writer.warmCache();
+
+      expect(await readFile(writer.getCacheFile(), 'utf-8')).not.toContain('partner.example.com');
+      expect((await stat(writer.getCacheFile())).mode & 0o777).toBe(0o600);
+
+      const reader = new PhlagClient(options);
+      expect(await reader.getFlag('partner_endpoint')).toBe('https://partner.example.com');
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      // A client without the key can't use the file
+      const stranger = new PhlagClient({ ...options, cacheEncryptionKey: undefined });
+      await stranger.warmCache();
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject encryption keys of the wrong length', () => {
+      expect(
+        () =>
+          new PhlagClient({
+            baseUrl,
+            apiKey,
+            environment,
+            cache: true,
+            cacheEncryptionKey: new Uint8Array(16),
+          })
+      ).toThrow(PhlagError);
+    });
+  });
 });
@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PhlagClient } from '../src/PhlagClient.js';
+import {
+  AuthenticationError,
+  NetworkError,
+  InvalidFlagError,
+  CircuitOpenError,
+} from '../src/exceptions/index.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('PhlagClient defaults and bootstrap', () => {
+  const baseUrl = 'http://localhost:8000';
+  const apiKey = 'test-api-key-64-chars-long-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+  const environment = 'production';
+  const cacheFile = '/nonexistent-dir/phlag_defaults_test.json';
+
+  const respondWith = (body: unknown) =>
+    (fetch as any).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      text: async () => JSON.stringify(body),
+    });
+
+  const respondWithStatus = (status: number) =>
+    (fetch as any).mockResolvedValueOnce({
+      ok: false,
+      status,
+      statusText: 'Error',
+      text: async () => '',
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (fetch as any).mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('defaults', () => {
+    it('should return defaults when the server is unreachable', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        defaults: { feature_checkout: false, max_items: 50 },
+      });
+
+      (fetch as any).mockRejectedValue(new Error('Connection refused'));
+
+      expect(await client.getFlag('max_items')).toBe(50);
+      expect(await client.isEnabled('feature_checkout')).toBe(false);
+      expect(await client.getAllFlags()).toEqual({ feature_checkout: false, max_items: 50 });
+    });
+
+    it('should return defaults on server errors', async () => {
+      const client = new PhlagClient({ baseUrl, apiKey, environment, defaults: { max_items: 50 } });
+
+      respondWithStatus(503);
+
+      expect(await client.getFlag('max_items')).toBe(50);
+    });
+
+    it('should still throw for flags without a default', async () => {
+      const client = new PhlagClient({ baseUrl, apiKey, environment, defaults: { max_items: 50 } });
+
+      (fetch as any).mockRejectedValue(new Error('Connection refused'));
+
+      await expect(client.getFlag('other_flag')).rejects.toThrow(NetworkError);
+    });
+
+    it('should not hide configuration errors', async () => {
+      const client = new PhlagClient({ baseUrl, apiKey, environment, defaults: { max_items: 50 } });
+
+      respondWithStatus(401);
+
+      await expect(client.getFlag('max_items')).rejects.toThrow(AuthenticationError);
+    });
+
+    it('should not hide errors thrown by interceptors', async () => {
+      const hookError = new Error('Signing failed');
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        defaults: { max_items: 50 },
+        interceptors: {
+          onRequest: () => {
+            throw hookError;
+          },
+        },
+      });
+
+      await expect(client.getFlag('max_items')).rejects.toBe(hookError);
+    });
+
+    it('should return defaults for flags that do not exist', async () => {
+      const client = new PhlagClient({ baseUrl, apiKey, environment, defaults: { max_items: 50 } });
+
+      respondWithStatus(404);
+      expect(await client.getFlag('max_items')).toBe(50);
+
+      respondWithStatus(404);
+      await expect(client.getFlag('other_flag')).rejects.toThrow(InvalidFlagError);
+    });
+
+    it('should return defaults for flags missing from the cached snapshot', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheFile,
+        defaults: { max_items: 50 },
+      });
+
+      respondWith({ feature_checkout: true, welcome_message: null });
+
+      expect(await client.getFlag('max_items')).toBe(50);
+      // Null is a real value and is returned as is
+      expect(await client.getFlag('welcome_message')).toBeNull();
+    });
+
+    it('should fill in defaults for getFlags', async () => {
+      const onMissing = vi.fn();
+      const client = new PhlagClient({ baseUrl, apiKey, environment, defaults: { max_items: 50 } });
+
+      respondWith({ feature_checkout: true });
+
+      expect(
+        await client.getFlags(['feature_checkout', 'max_items', 'other_flag'], onMissing)
+      ).toEqual({ feature_checkout: true, max_items: 50 });
+      expect(onMissing).toHaveBeenCalledWith(['other_flag']);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should return defaults without a request while the breaker is open', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        defaults: { max_items: 50 },
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      (fetch as any).mockRejectedValue(new Error('Connection refused'));
+
+      expect(await client.getFlag('max_items')).toBe(50);
+      expect(client.getCircuitState()).toBe('open');
+      expect(await client.getFlag('max_items')).toBe(50);
+      await expect(client.getFlag('other_flag')).rejects.toThrow(CircuitOpenError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('bootstrap', () => {
+    it('should serve the bootstrap snapshot while the first fetch runs', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheFile,
+        bootstrap: { feature_checkout: false },
+      });
+
+      let respond!: () => void;
+      (fetch as any).mockReturnValueOnce(
+        new Promise((resolve) => {
+          respond = () =>
+            resolve({
+              ok: true,
+              status: 200,
+              text: async () => JSON.stringify({ feature_checkout: true }),
+            });
+        })
+      );
+
+      expect(await client.isEnabled('feature_checkout')).toBe(false);
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+
+      respond();
+
+      await vi.waitFor(async () => expect(await client.isEnabled('feature_checkout')).toBe(true));
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep serving the bootstrap snapshot while the server is down', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheFile,
+        bootstrap: { feature_checkout: true },
+      });
+      const errors: Error[] = [];
+      client.on('error', (error) => errors.push(error));
+
+      (fetch as any).mockRejectedValue(new Error('Connection refused'));
+
+      expect(await client.isEnabled('feature_checkout')).toBe(true);
+      await vi.waitFor(() => expect(errors).toHaveLength(1));
+      expect(await client.isEnabled('feature_checkout')).toBe(true);
+      // Each read retries the refresh in the background
+      await vi.waitFor(() => expect(errors).toHaveLength(2));
+      expect(errors[0]).toBeInstanceOf(NetworkError);
+    });
+
+    it('should emit changes from the bootstrap snapshot to live values', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheFile,
+        bootstrap: { feature_checkout: false, max_items: 10 },
+      });
+      const changes: unknown[] = [];
+      client.on('change', (event) => changes.push(event));
+
+      respondWith({ feature_checkout: true, max_items: 10 });
+      await client.warmCache();
+
+      expect(changes).toEqual([{ name: 'feature_checkout', oldValue: false, newValue: true }]);
+    });
+
+    it('should prefer bootstrap values over defaults when uncached', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        bootstrap: { max_items: 100 },
+        defaults: { max_items: 50, feature_checkout: false },
+      });
+
+      (fetch as any).mockRejectedValue(new Error('Connection refused'));
+
+      expect(await client.getFlag('max_items')).toBe(100);
+      expect(await client.getFlags(['max_items', 'feature_checkout'])).toEqual({
+        max_items: 100,
+        feature_checkout: false,
+      });
+    });
+
+    it('should not carry the bootstrap snapshot to another environment', async () => {
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        bootstrap: { max_items: 100 },
+      });
+
+      (fetch as any).mockRejectedValue(new Error('Connection refused'));
+
+      await expect(client.withEnvironment('staging').getFlag('max_items')).rejects.toThrow(
+        NetworkError
+      );
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PhlagClient } from '../src/PhlagClient.js';
+import type { FlagEvaluation } from '../src/types.js';
+import { existsSync } from 'fs';
+import { unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('PhlagClient onEvaluation', () => {
+  const baseUrl = 'http://localhost:8000';
+  const apiKey = 'test-api-key-64-chars-long-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+  const environment = 'production';
+  const cacheFile = `${tmpdir()}/phlag_evaluation_test.json`;
+  let evaluations: FlagEvaluation[];
+
+  const allFlags = (flags: Record<string, unknown>) => ({
+    ok: true,
+    status: 200,
+    text: async () => JSON.stringify(flags),
+  });
+
+  const sources = () => evaluations.map((e) => [e.name, e.source]);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    evaluations = [];
+  });
+
+  afterEach(async () => {
+    if (existsSync(cacheFile)) {
+      await unlink(cacheFile);
+    }
+    vi.restoreAllMocks();
+  });
+
+  it('should report each read with its value, environment and timestamp', async () => {
+    const client = new PhlagClient({
+      baseUrl,
+      apiKey,
+      environment,
+      onEvaluation: (evaluation) => evaluations.push(evaluation),
+    });
+    (fetch as any).mockResolvedValueOnce({ ok: true, status: 200, text: async () => 'true' });
+
+    expect(await client.isEnabled('feature_checkout')).toBe(true);
+
+    expect(evaluations).toEqual([
+      {
+        name: 'feature_checkout',
+        value: true,
+        environment,
+        source: 'network',
+        timestamp: expect.any(Number),
+      },
+    ]);
+  });
+
+  it('should report network, memory and file cache sources', async () => {
+    const options = {
+      baseUrl,
+      apiKey,
+      environment,
+      cache: true,
+      cacheFile,
+      onEvaluation: (evaluation: FlagEvaluation) => evaluations.push(evaluation),
+    };
+    (fetch as any).mockResolvedValueOnce(allFlags({ feature_one: true }));
+
+    const client = new PhlagClient(options);
+    await client.getFlag('feature_one');
+    await client.getFlag('feature_one');
+
+    // A second process finds the cache file
+    await new PhlagClient(options).getFlag('feature_one');
+
+    expect(sources()).toEqual([
+      ['feature_one', 'network'],
+      ['feature_one', 'memory'],
+      ['feature_one', 'file'],
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report default and bootstrap sources', async () => {
+    const client = new PhlagClient({
+      baseUrl,
+      apiKey,
+      environment,
+      defaults: { max_items: 50 },
+      bootstrap: { feature_one: true },
+      schema: { welcome_message: { type: 'STRING', default: 'Hello' } },
+      onEvaluation: (evaluation) => evaluations.push(evaluation),
+      onSchemaViolation: () => {},
+    });
+    (fetch as any)
+      .mockRejectedValueOnce(new Error('Connection refused'))
+      .mockRejectedValueOnce(new Error('Connection refused'))
+      .mockResolvedValueOnce({ ok: true, status: 200, text: async () => '' });
+
+    await client.getFlag('max_items');
+    await client.getFlag('feature_one');
+    await client.getFlag('welcome_message');
+
+    expect(sources()).toEqual([
+      ['max_items', 'default'],
+      ['feature_one', 'bootstrap'],
+      ['welcome_message', 'default'],
+    ]);
+  });
+
+  it('should not report reads that throw', async () => {
+    const client = new PhlagClient({
+      baseUrl,
+      apiKey,
+      environment,
+      onEvaluation: (evaluation) => evaluations.push(evaluation),
+    });
+    (fetch as any).mockRejectedValueOnce(new Error('Connection refused'));
+
+    await expect(client.getFlag('feature_one')).rejects.toThrow();
+
+    expect(evaluations).toEqual([]);
+  });
+
+  it('should log errors thrown by the callback', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const client = new PhlagClient({
+      baseUrl,
+      apiKey,
+      environment,
+      onEvaluation: () => {
+        throw new Error('Logger down');
+      },
+    });
+    (fetch as any).mockResolvedValueOnce({ ok: true, status: 200, text: async () => '100' });
+
+    expect(await client.getFlag('max_items')).toBe(100);
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Phlag: Error in onEvaluation callback',
+      expect.any(Error)
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PhlagClient } from '../src/PhlagClient.js';
+import { NetworkError } from '../src/exceptions/index.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('PhlagClient polling', () => {
+  const baseUrl = 'http://localhost:8000';
+  const apiKey = 'test-api-key-64-chars-long-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+  const environment = 'production';
+  let client: PhlagClient;
+
+  const flagsResponse = (flags: Record<string, unknown>) => ({
+    ok: true,
+    status: 200,
+    text: async () => JSON.stringify(flags),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    client = new PhlagClient({
+      baseUrl,
+      apiKey,
+      environment,
+      pollInterval: 30,
+    });
+  });
+
+  afterEach(() => {
+    client.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('start/stop', () => {
+    it('should poll all flags on the interval', async () => {
+      (fetch as any).mockResolvedValue(flagsResponse({ feature_one: true }));
+
+      client.start();
+      expect(client.isRunning()).toBe(true);
+      expect(fetch).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(fetch).toHaveBeenCalledWith(`${baseUrl}/all-flags/${environment}`, expect.any(Object));
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop polling and clear timers', async () => {
+      (fetch as any).mockResolvedValue(flagsResponse({ feature_one: true }));
+
+      client.start();
+      await vi.advanceTimersByTimeAsync(30_000);
+      client.stop();
+
+      expect(client.isRunning()).toBe(false);
+      expect(vi.getTimerCount()).toBe(0);
+
+      await vi.advanceTimersByTimeAsync(90_000);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should be a no-op without a poll interval', () => {
+      const noPollClient = new PhlagClient({ baseUrl, apiKey, environment });
+
+      noPollClient.start();
+
+      expect(noPollClient.isRunning()).toBe(false);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should not start a second loop when restarted', async () => {
+      (fetch as any).mockResolvedValue(flagsResponse({ feature_one: true }));
+
+      client.start();
+      client.start();
+      client.stop();
+      client.start();
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(vi.getTimerCount()).toBe(1);
+    });
+  });
+
+  describe('events', () => {
+    it('should emit change events for flags that differ', async () => {
+      (fetch as any)
+        .mockResolvedValueOnce(flagsResponse({ feature_one: false, max_items: 10, old_flag: 'x' }))
+        .mockResolvedValueOnce(flagsResponse({ feature_one: true, max_items: 10, new_flag: 'y' }));
+
+      const changes: unknown[] = [];
+      client.on('change', (event) => changes.push(event));
+
+      client.start();
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      // The initial load has nothing to diff against
+      expect(changes).toEqual([]);
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(changes).toEqual([
+        { name: 'feature_one', oldValue: false, newValue: true },
+        { name: 'old_flag', oldValue: 'x', newValue: null },
+        { name: 'new_flag', oldValue: null, newValue: 'y' },
+      ]);
+    });
+
+    it('should emit refresh events with the changed flag names', async () => {
+      (fetch as any)
+        .mockResolvedValueOnce(flagsResponse({ feature_one: false }))
+        .mockResolvedValueOnce(flagsResponse({ feature_one: true }));
+
+      const refresh = vi.fn();
+      client.on('refresh', refresh);
+
+      client.start();
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(refresh).toHaveBeenCalledTimes(2);
+      expect(refresh.mock.calls[0][0].changed).toEqual([]);
+      expect(refresh.mock.calls[1][0]).toEqual({
+        flags: { feature_one: true },
+        changed: ['feature_one'],
+        fetchedAt: expect.any(Number),
+      });
+    });
+
+    it('should emit error events and keep polling', async () => {
+      (fetch as any)
+        .mockRejectedValueOnce(new Error('Connection refused'))
+        .mockResolvedValueOnce(flagsResponse({ feature_one: true }));
+
+      const errors: Error[] = [];
+      client.on('error', (error) => errors.push(error));
+
+      client.start();
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toBeInstanceOf(NetworkError);
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(client.isRunning()).toBe(true);
+    });
+
+    it('should log poll errors when nothing listens for them', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      (fetch as any).mockRejectedValue(new Error('Connection refused'));
+
+      client.start();
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Phlag: Unable to refresh flag cache',
+        expect.stringContaining('Connection refused')
+      );
+    });
+
+    it('should remove listeners with off or the returned function', async () => {
+      (fetch as any).mockResolvedValue(flagsResponse({ feature_one: true }));
+
+      const first = vi.fn();
+      const second = vi.fn();
+      const unsubscribe = client.on('refresh', first);
+      client.on('refresh', second);
+      unsubscribe();
+      client.off('refresh', second);
+
+      client.start();
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with caching', () => {
+    it('should serve polled values to flag reads', async () => {
+      const cachedClient = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheFile: '/nonexistent-dir/phlag_polling_test.json',
+        pollInterval: 30,
+      });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      (fetch as any)
+        .mockResolvedValueOnce(flagsResponse({ feature_one: false }))
+        .mockResolvedValueOnce(flagsResponse({ feature_one: true }));
+
+      expect(await cachedClient.isEnabled('feature_one')).toBe(false);
+
+      cachedClient.start();
+      await vi.advanceTimersByTimeAsync(30_000);
+      cachedClient.stop();
+
+      expect(await cachedClient.isEnabled('feature_one')).toBe(true);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+});
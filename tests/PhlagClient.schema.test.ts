@@ -0,0 +1,255 @@
+import { describe, it, expect, expectTypeOf, vi, beforeEach, afterEach } from 'vitest';
+import { PhlagClient } from '../src/PhlagClient.js';
+import type { FlagValue } from '../src/types.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+interface AppFlags {
+  feature_checkout: boolean;
+  max_items: number;
+  welcome_message: string;
+}
+
+describe('PhlagClient with a flag schema', () => {
+  const baseUrl = 'http://localhost:8000';
+  const apiKey = 'test-api-key-64-chars-long-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+  const environment = 'production';
+
+  const schema = {
+    feature_checkout: { type: 'SWITCH', default: false },
+    max_items: { type: 'INTEGER', default: 50 },
+    welcome_message: { type: 'STRING' },
+  } as const;
+
+  const respondWith = (body: unknown) =>
+    (fetch as any).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      text: async () => JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('compile-time types', () => {
+    it('should type flag values by name', () => {
+      const client = new PhlagClient<AppFlags>({ baseUrl, apiKey, environment });
+
+      expectTypeOf(client.getFlag<'max_items'>).returns.resolves.toEqualTypeOf<number | null>();
+      expectTypeOf(client.getFlag<'feature_checkout'>).returns.resolves.toEqualTypeOf<
+        boolean | null
+      >();
+      expectTypeOf(client.withEnvironment('staging')).toEqualTypeOf<PhlagClient<AppFlags>>();
+
+      const typo = () =>
+        // @ts-expect-error - unknown flag names don't compile
+        client.getFlag('max_itmes');
+      expect(typo).toBeTypeOf('function');
+    });
+
+    it('should default to untyped flag names', () => {
+      const client = new PhlagClient({ baseUrl, apiKey, environment });
+
+      expectTypeOf(client.getFlag<'anything'>).returns.resolves.toEqualTypeOf<FlagValue>();
+    });
+
+    it('should not infer flag names from defaults or a schema', () => {
+      const withDefaults = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        defaults: { max_items: 50 },
+      });
+      const withSchema = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        schema: { max_items: { type: 'INTEGER', default: 50 } },
+      });
+
+      expectTypeOf(withDefaults).toEqualTypeOf<PhlagClient>();
+      expectTypeOf(withSchema).toEqualTypeOf<PhlagClient>();
+      expectTypeOf(
+        withDefaults.getFlag<'feature_checkout'>
+      ).returns.resolves.toEqualTypeOf<FlagValue>();
+      expectTypeOf(withSchema.getFlag<'max_items'>).returns.resolves.toEqualTypeOf<FlagValue>();
+    });
+  });
+
+  describe('validation', () => {
+    it('should report flags missing from the all-flags response', async () => {
+      const onSchemaViolation = vi.fn();
+      const client = new PhlagClient<AppFlags>({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheFile: '/nonexistent-dir/phlag_schema_test.json',
+        schema,
+        onSchemaViolation,
+      });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      respondWith({ feature_checkout: true, max_items: 10 });
+      await client.warmCache();
+
+      expect(onSchemaViolation).toHaveBeenCalledTimes(1);
+      expect(onSchemaViolation).toHaveBeenCalledWith({
+        name: 'welcome_message',
+        reason: 'missing',
+        expected: 'STRING',
+        value: null,
+      });
+    });
+
+    it('should keep the snapshot when onSchemaViolation throws', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const client = new PhlagClient<AppFlags>({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheFile: '/nonexistent-dir/phlag_schema_test.json',
+        schema,
+        onSchemaViolation: (violation) => {
+          throw new Error(`reporter down: ${violation.name}`);
+        },
+      });
+
+      respondWith({ feature_checkout: true, max_items: 'ten', welcome_message: 'Hi' });
+
+      expect(await client.getFlag('feature_checkout')).toBe(true);
+      expect(await client.getFlag('welcome_message')).toBe('Hi');
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Phlag: Error in onSchemaViolation callback',
+        expect.any(Error)
+      );
+    });
+
+    it('should report values of the wrong type', async () => {
+      const onSchemaViolation = vi.fn();
+      const client = new PhlagClient<AppFlags>({
+        baseUrl,
+        apiKey,
+        environment,
+        schema,
+        onSchemaViolation,
+      });
+
+      respondWith({ feature_checkout: 'yes', max_items: 2.5, welcome_message: null });
+      await client.getAllFlags();
+
+      expect(onSchemaViolation.mock.calls).toEqual([
+        [{ name: 'feature_checkout', reason: 'type', expected: 'SWITCH', value: 'yes' }],
+        [{ name: 'max_items', reason: 'type', expected: 'INTEGER', value: 2.5 }],
+      ]);
+    });
+
+    it('should validate single flag reads when caching is disabled', async () => {
+      const onSchemaViolation = vi.fn();
+      const client = new PhlagClient<AppFlags>({
+        baseUrl,
+        apiKey,
+        environment,
+        schema,
+        onSchemaViolation,
+      });
+
+      respondWith('100');
+      expect(await client.getFlag('max_items')).toBe(50);
+
+      expect(onSchemaViolation).toHaveBeenCalledWith({
+        name: 'max_items',
+        reason: 'type',
+        expected: 'INTEGER',
+        value: '100',
+      });
+    });
+
+    it('should log a warning without an onSchemaViolation handler', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const client = new PhlagClient<AppFlags>({ baseUrl, apiKey, environment, schema });
+
+      respondWith({ feature_checkout: true, max_items: 10 });
+      await client.getAllFlags();
+
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('welcome_message'), null);
+    });
+  });
+
+  describe('defaults', () => {
+    it('should use schema defaults for null, missing and mismatched values', async () => {
+      const client = new PhlagClient<AppFlags>({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheFile: '/nonexistent-dir/phlag_schema_test.json',
+        schema,
+        onSchemaViolation: () => {},
+      });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      respondWith({ feature_checkout: null, max_items: 'lots' });
+
+      expect(await client.getFlag('feature_checkout')).toBe(false);
+      expect(await client.getFlag('max_items')).toBe(50);
+      // Declared without a default
+      expect(await client.getFlag('welcome_message')).toBeNull();
+    });
+
+    it('should return valid values unchanged', async () => {
+      const client = new PhlagClient<AppFlags>({ baseUrl, apiKey, environment, schema });
+
+      respondWith({ feature_checkout: true, max_items: 10, welcome_message: 'hi' });
+
+      expect(await client.getFlags(['feature_checkout', 'max_items', 'welcome_message'])).toEqual({
+        feature_checkout: true,
+        max_items: 10,
+        welcome_message: 'hi',
+      });
+    });
+
+    it('should apply defaults to getFlags results', async () => {
+      const client = new PhlagClient<AppFlags>({
+        baseUrl,
+        apiKey,
+        environment,
+        schema,
+        onSchemaViolation: () => {},
+      });
+
+      respondWith({ feature_checkout: null, max_items: 10 });
+
+      expect(await client.getFlags(['feature_checkout', 'max_items'])).toEqual({
+        feature_checkout: false,
+        max_items: 10,
+      });
+    });
+
+    it('should not apply defaults to getAllFlags', async () => {
+      const client = new PhlagClient<AppFlags>({
+        baseUrl,
+        apiKey,
+        environment,
+        schema,
+        onSchemaViolation: () => {},
+      });
+
+      respondWith({ feature_checkout: null, max_items: 10, welcome_message: 'hi' });
+
+      expect(await client.getAllFlags()).toEqual({
+        feature_checkout: null,
+        max_items: 10,
+        welcome_message: 'hi',
+      });
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'http';
+import type { Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { PhlagClient } from '../src/PhlagClient.js';
+
+/**
+ * Local stub of the Phlag server
+ *
+ * Serves /all-flags/{env} from `flags` and holds /stream/{env} open as a
+ * text/event-stream so tests can push events with send().
+ */
+class StubServer {
+  flags: Record<string, unknown> = {};
+  streamStatus = 200;
+  streamContentType = 'text/event-stream';
+  holdStreams = true;
+  allFlagsRequests = 0;
+  streamRequests = 0;
+  private readonly streams = new Set<ServerResponse>();
+  private readonly server: Server;
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      if (req.url?.startsWith('/all-flags/')) {
+        this.allFlagsRequests++;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(this.flags));
+        return;
+      }
+
+      if (req.url?.startsWith('/stream/')) {
+        this.streamRequests++;
+        if (this.streamStatus !== 200) {
+          res.writeHead(this.streamStatus);
+          res.end();
+          return;
+        }
+
+        res.writeHead(200, { 'Content-Type': this.streamContentType });
+        res.write(': connected\n\n');
+        if (!this.holdStreams) {
+          res.end();
+          return;
+        }
+        this.streams.add(res);
+        res.on('close', () => this.streams.delete(res));
+        return;
+      }
+
+      res.writeHead(404);
+      res.end();
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  get connections(): number {
+    return this.streams.size;
+  }
+
+  send(event: string, data: unknown): void {
+    for (const res of this.streams) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  }
+
+  dropConnections(): void {
+    for (const res of this.streams) {
+      res.end();
+    }
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+}
+
+describe('PhlagClient streaming', () => {
+  const apiKey = 'test-api-key-64-chars-long-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+  const environment = 'production';
+  let server: StubServer;
+  let baseUrl: string;
+  let client: PhlagClient;
+  let refreshes: number;
+
+  beforeEach(async () => {
+    server = new StubServer();
+    baseUrl = await server.listen();
+    client = new PhlagClient({
+      baseUrl,
+      apiKey,
+      environment,
+      cache: true,
+      cacheFile: '/nonexistent-dir/phlag_stream_test.json',
+      stream: true,
+      streamReconnectDelay: 10,
+      streamMaxReconnectDelay: 50,
+    });
+    refreshes = 0;
+    client.on('refresh', () => refreshes++);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    client.stop();
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should resync all flags when the stream opens', async () => {
+    server.flags = { feature_one: true };
+
+    client.start();
+
+    await vi.waitFor(() => expect(refreshes).toBe(1));
+    expect(await client.isEnabled('feature_one')).toBe(true);
+    expect(server.allFlagsRequests).toBe(1);
+  });
+
+  it('should apply pushed flag updates to the cache', async () => {
+    server.flags = { feature_one: false, max_items: 10 };
+
+    const changes: unknown[] = [];
+    client.on('change', (event) => changes.push(event));
+
+    client.start();
+    await vi.waitFor(() => expect(refreshes).toBe(1));
+    expect(await client.getFlag('max_items')).toBe(10);
+
+    server.send('flag', { name: 'feature_one', value: true });
+
+    await vi.waitFor(async () => expect(await client.isEnabled('feature_one')).toBe(true));
+    expect(changes).toEqual([{ name: 'feature_one', oldValue: false, newValue: true }]);
+    expect(server.allFlagsRequests).toBe(1);
+  });
+
+  it('should replace the snapshot on a flags event', async () => {
+    server.flags = { feature_one: false };
+
+    client.start();
+    await vi.waitFor(() => expect(refreshes).toBe(1));
+
+    server.send('flags', { feature_two: true });
+
+    await vi.waitFor(async () => expect(await client.isEnabled('feature_two')).toBe(true));
+    expect(await client.getFlag('feature_one')).toBeNull();
+  });
+
+  it('should reconnect and resync after the stream drops', async () => {
+    server.flags = { feature_one: false };
+
+    client.start();
+    await vi.waitFor(() => expect(refreshes).toBe(1));
+
+    // A change made while disconnected is picked up by the resync
+    server.flags = { feature_one: true };
+    server.dropConnections();
+
+    await vi.waitFor(() => expect(refreshes).toBe(2));
+    expect(server.streamRequests).toBe(2);
+    expect(await client.isEnabled('feature_one')).toBe(true);
+  });
+
+  it('should fall back to polling when the stream is unavailable', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server.streamStatus = 404;
+    server.flags = { feature_one: true };
+
+    const pollingClient = new PhlagClient({
+      baseUrl,
+      apiKey,
+      environment,
+      stream: true,
+      pollInterval: 0.05,
+    });
+
+    try {
+      pollingClient.start();
+
+      await vi.waitFor(() => expect(server.allFlagsRequests).toBeGreaterThanOrEqual(2));
+      expect(server.streamRequests).toBe(1);
+      expect(pollingClient.isRunning()).toBe(true);
+      expect(warnSpy).toHaveBeenCalled();
+    } finally {
+      pollingClient.stop();
+    }
+  });
+
+  it('should fall back to polling when the stream is not an event stream', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server.streamContentType = 'application/json';
+    server.holdStreams = false;
+    server.flags = { feature_one: true };
+
+    const pollingClient = new PhlagClient({
+      baseUrl,
+      apiKey,
+      environment,
+      stream: true,
+      pollInterval: 0.05,
+    });
+
+    try {
+      pollingClient.start();
+
+      await vi.waitFor(() => expect(server.allFlagsRequests).toBeGreaterThanOrEqual(2));
+      expect(server.streamRequests).toBe(1);
+      expect(warnSpy).toHaveBeenCalled();
+    } finally {
+      pollingClient.stop();
+    }
+  });
+
+  it('should back off from a server that drops the stream straight away', async () => {
+    server.holdStreams = false;
+    const droppingClient = new PhlagClient({
+      baseUrl,
+      apiKey,
+      environment,
+      stream: true,
+      streamReconnectDelay: 20,
+      streamMaxReconnectDelay: 1000,
+    });
+
+    try {
+      droppingClient.start();
+      await new Promise((resolve) => setTimeout(resolve, 400));
+
+      // Up to 20, 40, 80, 160 ms... apart with jitter, rather than up to 20 ms each time
+      expect(server.streamRequests).toBeGreaterThanOrEqual(2);
+      expect(server.streamRequests).toBeLessThanOrEqual(12);
+    } finally {
+      droppingClient.stop();
+    }
+  });
+
+  it('should close the stream on stop', async () => {
+    server.flags = { feature_one: true };
+
+    client.start();
+    await vi.waitFor(() => expect(server.connections).toBe(1));
+
+    client.stop();
+
+    expect(client.isRunning()).toBe(false);
+    await vi.waitFor(() => expect(server.connections).toBe(0));
+    expect(server.streamRequests).toBe(1);
+  });
+});
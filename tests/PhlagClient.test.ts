@@ -5,6 +5,7 @@ import {
   InvalidFlagError,
   InvalidEnvironmentError,
   NetworkError,
+  PhlagError,
 } from '../src/exceptions/index.js';
 
 // Mock fetch globally
@@ -151,6 +152,87 @@ describe('PhlagClient', () => {
       await expect(client.getFlag('test')).rejects.toThrow(NetworkError);
     });
 
+    it('should retry failed requests with the retry option', async () => {
+      const retryingClient = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        retry: { baseDelay: 1, jitter: false },
+      });
+      (fetch as any)
+        .mockResolvedValueOnce({ ok: false, status: 503, text: async () => '' })
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => '100' });
+
+      expect(await retryingClient.getFlag('max_items')).toBe(100);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send requests with the fetch option', async () => {
+      const customFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => '100',
+      });
+      const customClient = new PhlagClient({ baseUrl, apiKey, environment, fetch: customFetch });
+
+      expect(await customClient.getFlag('max_items')).toBe(100);
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should get the API key from the getApiKey option', async () => {
+      const providerClient = new PhlagClient({
+        baseUrl,
+        environment,
+        getApiKey: async () => 'vault-key',
+      });
+      (fetch as any).mockResolvedValueOnce({ ok: true, status: 200, text: async () => '100' });
+
+      expect(await providerClient.getFlag('max_items')).toBe(100);
+      expect((fetch as any).mock.calls[0][1].headers.Authorization).toBe('Bearer vault-key');
+    });
+
+    it('should require apiKey or getApiKey', () => {
+      expect(() => new PhlagClient({ baseUrl, environment })).toThrow(PhlagError);
+      expect(() => new PhlagClient({ baseUrl, apiKey: '', environment })).toThrow(
+        'Either the apiKey or the getApiKey option, or an Authorization header, is required'
+      );
+    });
+
+    it('should accept an Authorization header in place of an API key', async () => {
+      const basicClient = new PhlagClient({
+        baseUrl,
+        environment,
+        headers: { authorization: 'Basic dXNlcjpwYXNz' },
+      });
+      (fetch as any).mockResolvedValueOnce({ ok: true, status: 200, text: async () => '100' });
+
+      expect(await basicClient.getFlag('max_items')).toBe(100);
+      expect((fetch as any).mock.calls[0][1].headers).toEqual({
+        authorization: 'Basic dXNlcjpwYXNz',
+        Accept: 'application/json',
+      });
+    });
+
+    it('should pass requests through the interceptors option', async () => {
+      const onRequest = vi.fn();
+      const onResponse = vi.fn();
+      const interceptedClient = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        interceptors: { onRequest, onResponse },
+      });
+      (fetch as any).mockResolvedValueOnce({ ok: true, status: 200, text: async () => '100' });
+
+      await interceptedClient.getFlag('max_items');
+
+      expect(onRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ endpoint: 'flag/production/max_items' })
+      );
+      expect(onResponse).toHaveBeenCalledTimes(1);
+    });
+
     it('should make request to correct endpoint', async () => {
       (fetch as any).mockResolvedValueOnce({
         ok: true,
@@ -229,6 +311,239 @@ describe('PhlagClient', () => {
     });
   });
 
+  describe('typed accessors', () => {
+    const respondWith = (body: string) =>
+      (fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => body,
+      });
+
+    it('should return values that match the flag type', async () => {
+      respondWith('true');
+      respondWith('2.5');
+      respondWith('100');
+      respondWith('"hello"');
+
+      expect(await client.getBoolean('feature')).toBe(true);
+      expect(await client.getNumber('multiplier', 1)).toBe(2.5);
+      expect(await client.getInteger('max_items', 10)).toBe(100);
+      expect(await client.getString('welcome', 'hi')).toBe('hello');
+    });
+
+    it('should accept whole numbers for getNumber', async () => {
+      respondWith('3');
+
+      expect(await client.getNumber('multiplier', 1)).toBe(3);
+    });
+
+    it('should return the default for null values without reporting', async () => {
+      const onTypeMismatch = vi.fn();
+      const typedClient = new PhlagClient({ baseUrl, apiKey, environment, onTypeMismatch });
+      respondWith('null');
+      respondWith('null');
+
+      expect(await typedClient.getInteger('max_items', 10)).toBe(10);
+      expect(await typedClient.getBoolean('feature')).toBe(false);
+      expect(onTypeMismatch).not.toHaveBeenCalled();
+    });
+
+    it('should return the default and report mismatched values', async () => {
+      const onTypeMismatch = vi.fn();
+      const typedClient = new PhlagClient({ baseUrl, apiKey, environment, onTypeMismatch });
+      respondWith('"100"');
+      respondWith('2.5');
+      respondWith('1');
+      respondWith('false');
+
+      expect(await typedClient.getInteger('max_items', 10)).toBe(10);
+      expect(await typedClient.getInteger('ratio', 1)).toBe(1);
+      expect(await typedClient.getBoolean('feature', true)).toBe(true);
+      expect(await typedClient.getString('welcome', 'hi')).toBe('hi');
+
+      expect(onTypeMismatch.mock.calls).toEqual([
+        [{ name: 'max_items', expected: 'INTEGER', value: '100' }],
+        [{ name: 'ratio', expected: 'INTEGER', value: 2.5 }],
+        [{ name: 'feature', expected: 'SWITCH', value: 1 }],
+        [{ name: 'welcome', expected: 'STRING', value: false }],
+      ]);
+    });
+
+    it('should log a warning without an onTypeMismatch handler', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      respondWith('"100"');
+
+      expect(await client.getInteger('max_items', 10)).toBe(10);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('max_items'), '100');
+    });
+
+    it('should log errors thrown by onTypeMismatch and return the default', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const typedClient = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        onTypeMismatch: () => {
+          throw new Error('reporter down');
+        },
+      });
+      respondWith('"100"');
+
+      expect(await typedClient.getInteger('max_items', 10)).toBe(10);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Phlag: Error in onTypeMismatch callback',
+        expect.any(Error)
+      );
+    });
+
+    it('should throw errors from the underlying getFlag call', async () => {
+      (fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () => 'Not Found',
+      });
+
+      await expect(client.getString('missing', 'x')).rejects.toThrow(InvalidFlagError);
+    });
+  });
+
+  describe('getFlags', () => {
+    it('should fetch all flags once and return the requested ones', async () => {
+      (fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ feature_one: true, max_items: 100, other: 'x' }),
+      });
+
+      const result = await client.getFlags(['feature_one', 'max_items']);
+
+      expect(result).toEqual({ feature_one: true, max_items: 100 });
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:8000/all-flags/production',
+        expect.any(Object)
+      );
+    });
+
+    it('should report missing flags instead of throwing', async () => {
+      (fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ feature_one: null }),
+      });
+
+      const onMissing = vi.fn();
+      const result = await client.getFlags(['feature_one', 'typo_flag'], onMissing);
+
+      expect(result).toEqual({ feature_one: null });
+      expect(onMissing).toHaveBeenCalledWith(['typo_flag']);
+    });
+
+    it('should not call onMissing when every flag exists', async () => {
+      (fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ feature_one: true }),
+      });
+
+      const onMissing = vi.fn();
+      await client.getFlags(['feature_one'], onMissing);
+
+      expect(onMissing).not.toHaveBeenCalled();
+    });
+
+    describe('parallel strategy', () => {
+      let flagResponses: Record<string, { status: number; body: string }>;
+      let inFlight: number;
+      let maxInFlight: number;
+
+      beforeEach(() => {
+        flagResponses = {
+          feature_one: { status: 200, body: 'true' },
+          max_items: { status: 200, body: '100' },
+          welcome: { status: 200, body: '"hi"' },
+          typo_flag: { status: 404, body: 'Not Found' },
+        };
+        inFlight = 0;
+        maxInFlight = 0;
+        (fetch as any).mockImplementation(async (url: string) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          inFlight--;
+
+          const { status, body } = flagResponses[url.split('/').pop()!];
+          return { ok: status === 200, status, text: async () => body };
+        });
+      });
+
+      it('should fetch each flag with limited concurrency', async () => {
+        const parallelClient = new PhlagClient({
+          baseUrl,
+          apiKey,
+          environment,
+          batchStrategy: 'parallel',
+          batchConcurrency: 2,
+        });
+
+        const onMissing = vi.fn();
+        const result = await parallelClient.getFlags(
+          ['feature_one', 'max_items', 'welcome', 'typo_flag', 'feature_one'],
+          onMissing
+        );
+
+        expect(result).toEqual({ feature_one: true, max_items: 100, welcome: 'hi' });
+        expect(onMissing).toHaveBeenCalledWith(['typo_flag']);
+        expect(fetch).toHaveBeenCalledTimes(4);
+        expect(maxInFlight).toBe(2);
+      });
+
+      it('should throw errors other than InvalidFlagError', async () => {
+        const parallelClient = new PhlagClient({
+          baseUrl,
+          apiKey,
+          environment,
+          batchStrategy: 'parallel',
+        });
+
+        flagResponses.max_items = { status: 401, body: 'Unauthorized' };
+
+        await expect(parallelClient.getFlags(['feature_one', 'max_items'])).rejects.toThrow(
+          AuthenticationError
+        );
+      });
+    });
+  });
+
+  describe('getAllFlags', () => {
+    it('should fetch all flags from the API', async () => {
+      (fetch as any).mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ feature_one: true, max_items: 100 }),
+      });
+
+      expect(await client.getAllFlags()).toEqual({ feature_one: true, max_items: 100 });
+      await client.getAllFlags();
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:8000/all-flags/production',
+        expect.any(Object)
+      );
+    });
+
+    it('should throw InvalidEnvironmentError for unknown environments', async () => {
+      (fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () => 'Not Found',
+      });
+
+      await expect(client.getAllFlags()).rejects.toThrow(InvalidEnvironmentError);
+    });
+  });
+
   describe('getEnvironment', () => {
     it('should return the current environment', () => {
       expect(client.getEnvironment()).toBe('production');
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PhlagClient } from '../src/PhlagClient.js';
+import { PhlagError } from '../src/exceptions/index.js';
+import { existsSync } from 'fs';
+import { unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('PhlagClient usage tracking', () => {
+  const baseUrl = 'http://localhost:8000';
+  const apiKey = 'test-api-key-64-chars-long-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+  const environment = 'production';
+  const cacheFile = `${tmpdir()}/phlag_usage_test.json`;
+
+  const serverFlags = {
+    ok: true,
+    status: 200,
+    text: async () => JSON.stringify({ feature_one: true, feature_two: false, max_items: 100 }),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    if (existsSync(cacheFile)) {
+      await unlink(cacheFile);
+    }
+    vi.restoreAllMocks();
+  });
+
+  it('should report flags never read and names missing on the server', async () => {
+    const client = new PhlagClient({
+      baseUrl,
+      apiKey,
+      environment,
+      trackUsage: true,
+      bootstrap: { feature_one: true, feture_two: false },
+    });
+    (fetch as any).mockRejectedValue(new Error('Connection refused'));
+
+    await client.getFlag('feature_one');
+    await client.isEnabled('feature_one');
+    await client.getFlags(['feature_one', 'feture_two']);
+
+    (fetch as any).mockReset().mockResolvedValueOnce(serverFlags);
+    const report = await client.getUsageReport();
+
+    expect(report).toEqual({
+      environment,
+      since: expect.any(Number),
+      generatedAt: expect.any(Number),
+      reads: {
+        feature_one: { count: 3, lastReadAt: expect.any(Number) },
+        feture_two: { count: 1, lastReadAt: expect.any(Number) },
+      },
+      neverRead: ['feature_two', 'max_items'],
+      missing: ['feture_two'],
+    });
+    expect(fetch).toHaveBeenCalledWith(`${baseUrl}/all-flags/${environment}`, expect.any(Object));
+  });
+
+  it('should compare with the server even when caching is enabled', async () => {
+    const client = new PhlagClient({
+      baseUrl,
+      apiKey,
+      environment,
+      cache: true,
+      cacheFile,
+      trackUsage: true,
+    });
+    (fetch as any).mockResolvedValue(serverFlags);
+
+    expect(await client.getFlag('typo_flag')).toBeNull();
+    const report = await client.getUsageReport();
+
+    expect(report.missing).toEqual(['typo_flag']);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+
+  it('should clear counts with resetUsage()', async () => {
+    const client = new PhlagClient({ baseUrl, apiKey, environment, trackUsage: true });
+    (fetch as any).mockResolvedValueOnce({ ok: true, status: 200, text: async () => 'true' });
+
+    await client.getFlag('feature_one');
+    client.resetUsage();
+
+    (fetch as any).mockResolvedValueOnce(serverFlags);
+    const report = await client.getUsageReport();
+
+    expect(report.reads).toEqual({});
+    expect(report.neverRead).toEqual(['feature_one', 'feature_two', 'max_items']);
+  });
+
+  it('should throw when usage tracking is disabled', async () => {
+    const client = new PhlagClient({ baseUrl, apiKey, environment });
+
+    await expect(client.getUsageReport()).rejects.toThrow(PhlagError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,320 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  acquireCacheLock,
+  CACHE_FORMAT_VERSION,
+  createCacheEnvelope,
+  loadCacheFromFile,
+  resolveEncryptionKey,
+  writeCacheToFile,
+} from '../src/cache.js';
+import { PhlagError } from '../src/exceptions/index.js';
+import { CLIENT_VERSION } from '../src/version.js';
+import { mkdtemp, readdir, readFile, rm, stat, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
+
+describe('Cache file format', () => {
+  const identity = { baseUrl: 'http://localhost:8000', environment: 'production' };
+  const flags = { feature: true, max_items: 100, name: 'checkout' };
+  let directory: string;
+  let cacheFile: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(`${tmpdir()}/phlag_cache_format_`);
+    cacheFile = `${directory}/cache.json`;
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Writes a valid envelope with some fields replaced
+   */
+  const writeEnvelope = async (overrides: Record<string, unknown> = {}) => {
+    const envelope = createCacheEnvelope({ flags, fetchedAt: Date.now() }, identity);
+    await writeFile(cacheFile, JSON.stringify({ ...envelope, ...overrides }), 'utf-8');
+  };
+
+  it('should write the snapshot in a versioned envelope', async () => {
+    const fetchedAt = Date.now();
+
+    await writeCacheToFile(cacheFile, { flags, fetchedAt }, identity);
+
+    const envelope = JSON.parse(await readFile(cacheFile, 'utf-8'));
+    expect(envelope).toEqual({
+      format: 'phlag-cache',
+      version: CACHE_FORMAT_VERSION,
+      fetchedAt,
+      environment: 'production',
+      baseUrlHash: createHash('sha256').update(identity.baseUrl).digest('hex'),
+      clientVersion: CLIENT_VERSION,
+      checksum: createHash('sha256').update(JSON.stringify(flags)).digest('hex'),
+      flags,
+    });
+    expect(await loadCacheFromFile(cacheFile, 300, identity)).toEqual({ flags, fetchedAt });
+  });
+
+  it('should record the version from package.json', async () => {
+    const pkg = JSON.parse(await readFile(new URL('../package.json', import.meta.url), 'utf-8'));
+    expect(CLIENT_VERSION).toBe(pkg.version);
+  });
+
+  it('should expire by the recorded fetch time rather than the file time', async () => {
+    // A copied or restored file gets a fresh mtime
+    await writeEnvelope({ fetchedAt: Date.now() - 301000 });
+    expect(await loadCacheFromFile(cacheFile, 300, identity)).toBeNull();
+  });
+
+  describe('rejection', () => {
+    it('should reject invalid JSON', async () => {
+      await writeFile(cacheFile, '{"format": "phlag-cache", "flags": {', 'utf-8');
+      expect(await loadCacheFromFile(cacheFile, 300, identity)).toBeNull();
+    });
+
+    it('should reject envelopes for another environment', async () => {
+      await writeEnvelope({ environment: 'staging' });
+      expect(await loadCacheFromFile(cacheFile, 300, identity)).toBeNull();
+    });
+
+    it('should reject envelopes for another server', async () => {
+      await writeEnvelope();
+      const otherServer = { ...identity, baseUrl: 'http://phlag.example.com' };
+      expect(await loadCacheFromFile(cacheFile, 300, otherServer)).toBeNull();
+    });
+
+    it('should reject envelopes from a newer format version', async () => {
+      await writeEnvelope({ version: CACHE_FORMAT_VERSION + 1 });
+      expect(await loadCacheFromFile(cacheFile, 300, identity)).toBeNull();
+    });
+
+    it('should reject flags that do not match the checksum', async () => {
+      await writeEnvelope({ flags: { ...flags, feature: false } });
+      expect(await loadCacheFromFile(cacheFile, 300, identity)).toBeNull();
+    });
+
+    it('should reject envelopes without flags', async () => {
+      await writeEnvelope({ flags: null });
+      expect(await loadCacheFromFile(cacheFile, 300, identity)).toBeNull();
+    });
+
+    it('should reject envelopes without a fetch time', async () => {
+      await writeEnvelope({ fetchedAt: undefined });
+      expect(await loadCacheFromFile(cacheFile, 300, identity)).toBeNull();
+    });
+
+    it('should reject fetch times in the future', async () => {
+      await writeEnvelope({ fetchedAt: Date.now() + 3600000 });
+      expect(await loadCacheFromFile(cacheFile, 300, identity)).toBeNull();
+    });
+
+    it('should reject envelopes with a damaged format rather than read them as flags', async () => {
+      await writeEnvelope({ format: 'phlag-cachf' });
+
+      expect(await loadCacheFromFile(cacheFile, 300, identity)).toBeNull();
+      expect(JSON.parse(await readFile(cacheFile, 'utf-8')).format).toBe('phlag-cachf');
+    });
+
+    it('should reject envelopes with a string version', async () => {
+      await writeEnvelope({ version: String(CACHE_FORMAT_VERSION) });
+      expect(await loadCacheFromFile(cacheFile, 300, identity)).toBeNull();
+    });
+
+    it('should reject legacy files with nested values', async () => {
+      await writeFile(cacheFile, JSON.stringify({ a: { nested: [1] } }), 'utf-8');
+
+      expect(await loadCacheFromFile(cacheFile, 300, identity)).toBeNull();
+      expect(JSON.parse(await readFile(cacheFile, 'utf-8'))).toEqual({ a: { nested: [1] } });
+    });
+  });
+
+  describe('legacy files', () => {
+    it('should load a bare flag object and rewrite it as an envelope', async () => {
+      await writeFile(cacheFile, JSON.stringify(flags), 'utf-8');
+
+      const entry = await loadCacheFromFile(cacheFile, 300, identity);
+
+      expect(entry?.flags).toEqual(flags);
+      const envelope = JSON.parse(await readFile(cacheFile, 'utf-8'));
+      expect(envelope).toMatchObject({
+        format: 'phlag-cache',
+        version: CACHE_FORMAT_VERSION,
+        fetchedAt: entry!.fetchedAt,
+        environment: 'production',
+        flags,
+      });
+    });
+
+    it('should expire a bare flag object by its modification time', async () => {
+      await writeFile(cacheFile, JSON.stringify(flags), 'utf-8');
+      const written = new Date(Date.now() - 301000);
+      await utimes(cacheFile, written, written);
+
+      expect(await loadCacheFromFile(cacheFile, 300, identity)).toBeNull();
+      expect(JSON.parse(await readFile(cacheFile, 'utf-8'))).toEqual(flags);
+    });
+  });
+
+  describe('atomic writes', () => {
+    it('should rename the temporary file into place', async () => {
+      await writeCacheToFile(cacheFile, { flags, fetchedAt: Date.now() }, identity);
+      await writeCacheToFile(cacheFile, { flags, fetchedAt: Date.now() }, identity, {
+        fsync: true,
+      });
+
+      expect(await readdir(directory)).toEqual(['cache.json']);
+      expect((await loadCacheFromFile(cacheFile, 300, identity))?.flags).toEqual(flags);
+    });
+
+    it('should remove orphaned temporary files but not recent ones', async () => {
+      const orphaned = `${cacheFile}.999.deadbeef.tmp`;
+      const inProgress = `${cacheFile}.998.cafebabe.tmp`;
+      await writeFile(orphaned, '{', 'utf-8');
+      await writeFile(inProgress, '{', 'utf-8');
+      const crashedAt = new Date(Date.now() - 120000);
+      await utimes(orphaned, crashedAt, crashedAt);
+
+      await writeCacheToFile(cacheFile, { flags, fetchedAt: Date.now() }, identity);
+
+      expect((await readdir(directory)).sort()).toEqual(
+        ['cache.json', 'cache.json.998.cafebabe.tmp'].sort()
+      );
+    });
+
+    it('should log failures and leave no temporary file', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const missingDir = `${directory}/missing/cache.json`;
+
+      await writeCacheToFile(missingDir, { flags, fetchedAt: Date.now() }, identity);
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        `Phlag: Unable to write cache file: ${missingDir}`,
+        expect.any(String)
+      );
+      expect(await readdir(directory)).toEqual([]);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('refresh lock', () => {
+    it('should let one holder take the lock at a time', async () => {
+      const release = await acquireCacheLock(cacheFile, 30000);
+
+      expect(release).not.toBeNull();
+      expect(await acquireCacheLock(cacheFile, 30000)).toBeNull();
+
+      await release!();
+      const next = await acquireCacheLock(cacheFile, 30000);
+      expect(next).not.toBeNull();
+      await next!();
+      expect(await readdir(directory)).toEqual([]);
+    });
+
+    it('should break locks older than staleAfter', async () => {
+      await writeFile(`${cacheFile}.lock`, '12345:crashed', 'utf-8');
+      const lockedAt = new Date(Date.now() - 60000);
+      await utimes(`${cacheFile}.lock`, lockedAt, lockedAt);
+
+      const release = await acquireCacheLock(cacheFile, 30000);
+
+      expect(release).not.toBeNull();
+      await release!();
+    });
+
+    it('should not remove a lock taken over by another process', async () => {
+      const release = await acquireCacheLock(cacheFile, 30000);
+      // Another process broke the lock and took it
+      await writeFile(`${cacheFile}.lock`, '12345:other', 'utf-8');
+
+      await release!();
+
+      expect(await readFile(`${cacheFile}.lock`, 'utf-8')).toBe('12345:other');
+    });
+
+    it('should throw when the lock file cannot be created', async () => {
+      await expect(acquireCacheLock(`${directory}/missing/cache.json`, 30000)).rejects.toThrow();
+    });
+  });
+
+  describe('permissions', () => {
+    it('should make cache files readable by their owner only', async () => {
+      await writeCacheToFile(cacheFile, { flags, fetchedAt: Date.now() }, identity);
+      expect((await stat(cacheFile)).mode & 0o777).toBe(0o600);
+    });
+
+    it('should apply a configured mode', async () => {
+      await writeCacheToFile(cacheFile, { flags, fetchedAt: Date.now() }, identity, {
+        mode: 0o640,
+      });
+      expect((await stat(cacheFile)).mode & 0o777).toBe(0o640);
+    });
+  });
+
+  describe('encryption', () => {
+    const encryptionKey = resolveEncryptionKey('a-long-random-secret-from-the-environment');
+
+    it('should encrypt the envelope and read it back with the key', async () => {
+      const fetchedAt = Date.now();
+
+      await writeCacheToFile(cacheFile, { flags, fetchedAt }, identity, { encryptionKey });
+
+      const contents = await readFile(cacheFile, 'utf-8');
+      expect(JSON.parse(contents)).toEqual({
+        format: 'phlag-cache-encrypted',
+        version: CACHE_FORMAT_VERSION,
+        iv: expect.any(String),
+        tag: expect.any(String),
+        data: expect.any(String),
+      });
+      expect(contents).not.toContain('checkout');
+      expect(await loadCacheFromFile(cacheFile, 300, identity, { encryptionKey })).toEqual({
+        flags,
+        fetchedAt,
+      });
+    });
+
+    it('should reject files encrypted with another key', async () => {
+      await writeCacheToFile(cacheFile, { flags, fetchedAt: Date.now() }, identity, {
+        encryptionKey,
+      });
+
+      const otherKey = resolveEncryptionKey('another-secret');
+      expect(await loadCacheFromFile(cacheFile, 300, identity, { encryptionKey: otherKey })).toBe(
+        null
+      );
+    });
+
+    it('should reject modified ciphertext', async () => {
+      await writeCacheToFile(cacheFile, { flags, fetchedAt: Date.now() }, identity, {
+        encryptionKey,
+      });
+      const file = JSON.parse(await readFile(cacheFile, 'utf-8'));
+      const data = Buffer.from(file.data, 'base64');
+      data[0] ^= 1;
+      await writeFile(cacheFile, JSON.stringify({ ...file, data: data.toString('base64') }));
+
+      expect(await loadCacheFromFile(cacheFile, 300, identity, { encryptionKey })).toBeNull();
+    });
+
+    it('should reject unencrypted files when a key is set', async () => {
+      await writeEnvelope();
+      expect(await loadCacheFromFile(cacheFile, 300, identity, { encryptionKey })).toBeNull();
+
+      await writeFile(cacheFile, JSON.stringify(flags), 'utf-8');
+      expect(await loadCacheFromFile(cacheFile, 300, identity, { encryptionKey })).toBeNull();
+    });
+
+    it('should reject encrypted files without a key', async () => {
+      await writeCacheToFile(cacheFile, { flags, fetchedAt: Date.now() }, identity, {
+        encryptionKey,
+      });
+      expect(await loadCacheFromFile(cacheFile, 300, identity)).toBeNull();
+    });
+
+    it('should require 32-byte keys', () => {
+      expect(resolveEncryptionKey(new Uint8Array(32))).toHaveLength(32);
+      expect(resolveEncryptionKey('secret')).toHaveLength(32);
+      expect(() => resolveEncryptionKey(new Uint8Array(16))).toThrow(PhlagError);
+    });
+  });
+});
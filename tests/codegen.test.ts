@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { inferFlagType, generateFlagModule, runCodegen } from '../src/codegen.js';
+
+const fixtureFile = join(__dirname, 'fixtures', 'flags.generated.ts');
+
+describe('codegen', () => {
+  describe('inferFlagType', () => {
+    it('should infer each flag type from its values', () => {
+      expect(inferFlagType([true, false])).toBe('SWITCH');
+      expect(inferFlagType([10, null, 20])).toBe('INTEGER');
+      expect(inferFlagType([1, 2.5])).toBe('FLOAT');
+      expect(inferFlagType(['a'])).toBe('STRING');
+    });
+
+    it('should return null for all-null or conflicting values', () => {
+      expect(inferFlagType([null])).toBeNull();
+      expect(inferFlagType([])).toBeNull();
+      expect(inferFlagType([true, 'a'])).toBeNull();
+    });
+  });
+
+  describe('generateFlagModule', () => {
+    it('should quote flag names that are not identifiers', () => {
+      const source = generateFlagModule({ 'checkout-v2': 'SWITCH', '2fa': 'SWITCH' });
+
+      expect(source).toContain("  'checkout-v2': boolean;");
+      expect(source).toContain("  '2fa': boolean;");
+      expect(source).toContain('export function isCheckoutV2Enabled(');
+      expect(source).toContain("client.isEnabled('checkout-v2')");
+      expect(source).toContain('export function is2faEnabled(');
+    });
+
+    it('should keep wrapper names unique', () => {
+      const source = generateFlagModule({ max_items: 'INTEGER', 'max-items': 'INTEGER' });
+
+      expect(source).toContain('export function getMaxItems(');
+      expect(source).toContain('export function getMaxItems2(');
+    });
+  });
+
+  describe('phlag-codegen', () => {
+    const apiKey = 'test-api-key-64-chars-long-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+    const environments: Record<string, Record<string, unknown>> = {
+      production: {
+        welcome_message: 'Hello',
+        feature_checkout: true,
+        max_items: 100,
+        price_multiplier: null,
+        legacy_mode: null,
+      },
+      staging: {
+        feature_checkout: false,
+        max_items: 50,
+        price_multiplier: 1.5,
+        beta_banner: true,
+        legacy_mode: null,
+      },
+    };
+
+    let server: Server;
+    let baseUrl: string;
+    let dir: string;
+    let stdout: string[];
+    let stderr: string[];
+    const io = {
+      stdout: (message: string) => stdout.push(message),
+      stderr: (message: string) => stderr.push(message),
+    };
+
+    beforeEach(async () => {
+      server = createServer((req, res) => {
+        const [, endpoint, environment] = req.url!.split('/');
+        if (req.headers.authorization !== `Bearer ${apiKey}`) {
+          res.writeHead(401);
+          res.end();
+        } else if (endpoint === 'all-flags' && environments[environment]) {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(environments[environment]));
+        } else {
+          res.writeHead(404);
+          res.end();
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      dir = await mkdtemp(join(tmpdir(), 'phlag-codegen-'));
+      stdout = [];
+      stderr = [];
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    const args = (out: string, ...extra: string[]) => [
+      '--url',
+      baseUrl,
+      '--env',
+      'production',
+      '--env',
+      'staging',
+      '--out',
+      out,
+      '--import-from',
+      '../../src/index.js',
+      ...extra,
+    ];
+
+    it('should write a module matching the committed fixture', async () => {
+      const out = join(dir, 'flags.ts');
+
+      const code = await runCodegen(args(out), { PHLAG_API_KEY: apiKey }, io);
+
+      expect(code).toBe(0);
+      expect(await readFile(out, 'utf-8')).toBe(await readFile(fixtureFile, 'utf-8'));
+      expect(stdout).toEqual([`Wrote 6 flags to ${out}`]);
+      expect(stderr).toEqual(['Warning: unable to infer the type of legacy_mode']);
+    });
+
+    it('should pass --check when the module is up to date', async () => {
+      const code = await runCodegen(args(fixtureFile, '--check', '--api-key', apiKey), {}, io);
+
+      expect(code).toBe(0);
+      expect(stdout).toEqual([`${fixtureFile} is up to date`]);
+    });
+
+    it('should fail --check when the module is out of date', async () => {
+      const out = join(dir, 'flags.ts');
+      await writeFile(out, '// stale\n');
+
+      const code = await runCodegen(args(out, '--check'), { PHLAG_API_KEY: apiKey }, io);
+
+      expect(code).toBe(1);
+      expect(stderr.join('\n')).toContain('is out of date');
+      expect(await readFile(out, 'utf-8')).toBe('// stale\n');
+    });
+
+    it('should fail --check when the module does not exist', async () => {
+      const code = await runCodegen(
+        args(join(dir, 'missing.ts'), '--check'),
+        { PHLAG_API_KEY: apiKey },
+        io
+      );
+
+      expect(code).toBe(1);
+    });
+
+    it('should report API errors', async () => {
+      const code = await runCodegen(args(join(dir, 'flags.ts')), { PHLAG_API_KEY: 'bad' }, io);
+
+      expect(code).toBe(2);
+      expect(stderr.join('\n')).toContain('Unable to fetch flags for production: Invalid API key');
+    });
+
+    it('should reject missing and unknown options', async () => {
+      expect(await runCodegen(['--url', baseUrl], { PHLAG_API_KEY: apiKey }, io)).toBe(2);
+      expect(await runCodegen(['--bogus'], {}, io)).toBe(2);
+      expect(await runCodegen(['--env'], {}, io)).toBe(2);
+      expect(stderr.join('\n')).toContain('Unknown option: --bogus');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ExposureExporter } from '../src/exposure.js';
+import type { FlagEvaluation } from '../src/types.js';
+
+describe('ExposureExporter', () => {
+  const exposure = (overrides: Partial<FlagEvaluation> = {}): FlagEvaluation => ({
+    name: 'feature_checkout',
+    value: true,
+    environment: 'production',
+    source: 'memory',
+    timestamp: Date.now(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should flush buffered exposures after the flush interval', async () => {
+    const sink = vi.fn();
+    const exporter = new ExposureExporter({ sink, flushInterval: 1000 });
+
+    exporter.record(exposure());
+    exporter.record(exposure({ name: 'max_items', value: 50 }));
+    expect(sink).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(sink).toHaveBeenCalledTimes(1);
+    expect(sink.mock.calls[0][0].map((e: FlagEvaluation) => e.name)).toEqual([
+      'feature_checkout',
+      'max_items',
+    ]);
+  });
+
+  it('should dedupe identical exposures within the window', async () => {
+    const sink = vi.fn();
+    const exporter = new ExposureExporter({ sink, dedupeWindow: 5000 });
+    const now = Date.now();
+
+    exporter.record(exposure({ timestamp: now }));
+    exporter.record(exposure({ timestamp: now + 1000, source: 'network' }));
+    exporter.record(exposure({ timestamp: now + 2000, value: false }));
+    exporter.record(exposure({ timestamp: now + 5000 }));
+    await exporter.flush();
+
+    expect(sink.mock.calls[0][0].map((e: FlagEvaluation) => [e.value, e.timestamp])).toEqual([
+      [true, now],
+      [false, now + 2000],
+      [true, now + 5000],
+    ]);
+  });
+
+  it('should flush as soon as a batch is full', () => {
+    const sink = vi.fn();
+    const exporter = new ExposureExporter({ sink, maxBatchSize: 2 });
+
+    exporter.record(exposure({ name: 'one' }));
+    exporter.record(exposure({ name: 'two' }));
+
+    expect(sink).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should log sink failures and keep exporting', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const sink = vi.fn().mockRejectedValueOnce(new Error('Sink down'));
+    const exporter = new ExposureExporter({ sink });
+
+    exporter.record(exposure({ name: 'one' }));
+    await exporter.flush();
+    exporter.record(exposure({ name: 'two' }));
+    await exporter.flush();
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Phlag: Unable to export flag exposures',
+      expect.any(Error)
+    );
+    expect(sink).toHaveBeenCalledTimes(2);
+    errorSpy.mockRestore();
+  });
+
+  it('should not call the sink when nothing is buffered', async () => {
+    const sink = vi.fn();
+    const exporter = new ExposureExporter({ sink });
+
+    await exporter.flush();
+
+    expect(sink).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+// This file is generated by phlag-codegen. Do not edit it by hand.
+
+import type { PhlagClient } from '../../src/index.js';
+
+export interface PhlagFlags {
+  /** SWITCH */
+  beta_banner: boolean;
+  /** SWITCH */
+  feature_checkout: boolean;
+  /** Unknown type (no non-null values) */
+  legacy_mode: boolean | number | string;
+  /** INTEGER */
+  max_items: number;
+  /** FLOAT */
+  price_multiplier: number;
+  /** STRING */
+  welcome_message: string;
+}
+
+export const FLAG_NAMES = [
+  'beta_banner',
+  'feature_checkout',
+  'legacy_mode',
+  'max_items',
+  'price_multiplier',
+  'welcome_message',
+] as const;
+
+export type FlagName = (typeof FLAG_NAMES)[number];
+
+export function isBetaBannerEnabled(client: PhlagClient<PhlagFlags>): Promise<boolean> {
+  return client.isEnabled('beta_banner');
+}
+
+export function isFeatureCheckoutEnabled(client: PhlagClient<PhlagFlags>): Promise<boolean> {
+  return client.isEnabled('feature_checkout');
+}
+
+export function getLegacyMode(
+  client: PhlagClient<PhlagFlags>
+): Promise<PhlagFlags['legacy_mode'] | null> {
+  return client.getFlag('legacy_mode');
+}
+
+export function getMaxItems(
+  client: PhlagClient<PhlagFlags>,
+  defaultValue: number
+): Promise<number> {
+  return client.getInteger('max_items', defaultValue);
+}
+
+export function getPriceMultiplier(
+  client: PhlagClient<PhlagFlags>,
+  defaultValue: number
+): Promise<number> {
+  return client.getNumber('price_multiplier', defaultValue);
+}
+
+export function getWelcomeMessage(
+  client: PhlagClient<PhlagFlags>,
+  defaultValue: string
+): Promise<string> {
+  return client.getString('welcome_message', defaultValue);
+}
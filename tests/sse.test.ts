@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { SseParser } from '../src/sse.js';
+
+describe('SseParser', () => {
+  it('should parse named events', () => {
+    const parser = new SseParser();
+
+    const events = parser.feed('event: flag\ndata: {"name":"a","value":true}\n\n');
+
+    expect(events).toEqual([{ event: 'flag', data: '{"name":"a","value":true}' }]);
+  });
+
+  it('should default the event type to message', () => {
+    const parser = new SseParser();
+
+    expect(parser.feed('data: hello\n\n')).toEqual([{ event: 'message', data: 'hello' }]);
+  });
+
+  it('should join multiple data lines', () => {
+    const parser = new SseParser();
+
+    expect(parser.feed('data: one\ndata: two\n\n')).toEqual([
+      { event: 'message', data: 'one\ntwo' },
+    ]);
+  });
+
+  it('should handle events split across chunks', () => {
+    const parser = new SseParser();
+
+    expect(parser.feed('event: fl')).toEqual([]);
+    expect(parser.feed('ag\ndata: {"na')).toEqual([]);
+    expect(parser.feed('me":"a"}\n')).toEqual([]);
+    expect(parser.feed('\n')).toEqual([{ event: 'flag', data: '{"name":"a"}' }]);
+  });
+
+  it('should handle CRLF line endings', () => {
+    const parser = new SseParser();
+
+    expect(parser.feed('event: flags\r\ndata: {}\r\n\r\n')).toEqual([
+      { event: 'flags', data: '{}' },
+    ]);
+  });
+
+  it('should handle CRLF line endings split across chunks', () => {
+    const parser = new SseParser();
+
+    expect(parser.feed('data: a\r')).toEqual([]);
+    expect(parser.feed('\ndata: b\r\n\r\n')).toEqual([{ event: 'message', data: 'a\nb' }]);
+  });
+
+  it('should ignore comments and events without data', () => {
+    const parser = new SseParser();
+
+    expect(parser.feed(': keep-alive\n\nevent: ping\n\nretry: 1000\n\n')).toEqual([]);
+  });
+
+  it('should include the event id', () => {
+    const parser = new SseParser();
+
+    expect(parser.feed('id: 42\ndata: x\n\n')).toEqual([{ event: 'message', data: 'x', id: '42' }]);
+  });
+});
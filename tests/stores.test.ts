@@ -0,0 +1,573 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PhlagClient } from '../src/PhlagClient.js';
+import {
+  FileCacheStore,
+  MemoryCacheStore,
+  KeyValueCacheStore,
+  LocalStorageCacheStore,
+  IndexedDBCacheStore,
+  BrowserCacheStore,
+} from '../src/stores.js';
+import type { FlagCacheStore } from '../src/types.js';
+import { generateCacheFilename } from '../src/cache.js';
+import { existsSync } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+// Spy on the Node.js-only cache file helper
+vi.mock('../src/cache.js', async (importOriginal) => {
+  const cache = await importOriginal<typeof import('../src/cache.js')>();
+  return { ...cache, generateCacheFilename: vi.fn(cache.generateCacheFilename) };
+});
+
+/**
+ * Map-backed stand-in for localStorage
+ */
+class FakeStorage implements Storage {
+  private readonly items = new Map<string, string>();
+  quotaExceeded = false;
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    if (this.quotaExceeded) {
+      throw new Error('QuotaExceededError');
+    }
+    this.items.set(key, value);
+  }
+}
+
+/**
+ * Map-backed stand-in for indexedDB
+ *
+ * Requests complete on a later tick like real ones. Values are copied on
+ * the way in and out, as IndexedDB's structured clone does.
+ */
+class FakeIndexedDB {
+  readonly databases = new Map<string, Map<string, Map<IDBValidKey, unknown>>>();
+  readonly createObjectStore = vi.fn();
+  opens = 0;
+  failOpens = 0;
+
+  open(name: string): IDBOpenDBRequest {
+    this.opens++;
+    const request: Record<string, any> = {};
+
+    setTimeout(() => {
+      if (this.failOpens > 0) {
+        this.failOpens--;
+        request.error = new Error('Open blocked');
+        request.onerror?.();
+        return;
+      }
+
+      const stores = this.databases.get(name) ?? new Map<string, Map<IDBValidKey, unknown>>();
+      request.result = {
+        transaction: (storeName: string) => ({
+          objectStore: () => this.objectStore(stores.get(storeName)!),
+        }),
+        createObjectStore: (storeName: string) => {
+          this.createObjectStore(storeName);
+          stores.set(storeName, new Map());
+        },
+      };
+
+      if (!this.databases.has(name)) {
+        this.databases.set(name, stores);
+        request.onupgradeneeded?.();
+      }
+      request.onsuccess?.();
+    }, 0);
+
+    return request as unknown as IDBOpenDBRequest;
+  }
+
+  /**
+   * Creates an object store view over a map
+   */
+  private objectStore(values: Map<IDBValidKey, unknown>): IDBObjectStore {
+    const complete = (result: unknown) => {
+      const request: Record<string, any> = {};
+      setTimeout(() => {
+        request.result = result;
+        request.onsuccess?.();
+      }, 0);
+      return request;
+    };
+
+    return {
+      get: (key: IDBValidKey) => complete(structuredClone(values.get(key))),
+      put: (value: unknown, key: IDBValidKey) => complete(values.set(key, structuredClone(value))),
+      delete: (key: IDBValidKey) => complete(values.delete(key)),
+    } as unknown as IDBObjectStore;
+  }
+}
+
+describe('Cache stores', () => {
+  const entry = { flags: { feature: true, max_items: 100 }, fetchedAt: 1700000000000 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('MemoryCacheStore', () => {
+    it('should store, describe and delete entries', async () => {
+      const store = new MemoryCacheStore();
+
+      expect(await store.get('key')).toBeNull();
+      await store.set('key', entry);
+
+      expect(await store.get('key')).toEqual(entry);
+      expect(await store.getMetadata('key')).toEqual({ fetchedAt: entry.fetchedAt });
+
+      await store.delete('key');
+      expect(await store.get('key')).toBeNull();
+      expect(await store.getMetadata('key')).toBeNull();
+    });
+
+    it('should not share flag objects with callers', async () => {
+      const store = new MemoryCacheStore();
+      const flags = { feature: true };
+      await store.set('key', { flags, fetchedAt: 1 });
+      flags.feature = false;
+
+      const stored = await store.get('key');
+      stored!.flags.feature = false;
+
+      expect((await store.get('key'))!.flags).toEqual({ feature: true });
+    });
+  });
+
+  describe('KeyValueCacheStore', () => {
+    it('should store JSON under a prefixed key with the TTL', async () => {
+      const values = new Map<string, string>();
+      const kv = {
+        get: vi.fn(async (key: string) => values.get(key)),
+        set: vi.fn(async (key: string, value: string) => values.set(key, value)),
+        delete: vi.fn(async (key: string) => values.delete(key)),
+      };
+      const store = new KeyValueCacheStore(kv);
+
+      await store.set('key', entry, 300);
+
+      expect(kv.set).toHaveBeenCalledWith('phlag:key', JSON.stringify(entry), 300);
+      expect(await store.get('key')).toEqual(entry);
+
+      await store.delete('key');
+      expect(kv.delete).toHaveBeenCalledWith('phlag:key');
+      expect(await store.get('key')).toBeNull();
+    });
+
+    it('should treat invalid values and client errors as misses', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const kv = {
+        get: vi.fn().mockResolvedValueOnce('not json').mockRejectedValueOnce(new Error('down')),
+        set: vi.fn().mockRejectedValue(new Error('down')),
+        delete: vi.fn(),
+      };
+      const store = new KeyValueCacheStore(kv, { prefix: 'app:' });
+
+      expect(await store.get('key')).toBeNull();
+      expect(await store.get('key')).toBeNull();
+      await expect(store.set('key', entry, 300)).resolves.toBeUndefined();
+
+      expect(kv.get).toHaveBeenCalledWith('app:key');
+      expect(consoleSpy).toHaveBeenCalledWith('Phlag: Unable to update key-value cache', 'down');
+    });
+  });
+
+  describe('LocalStorageCacheStore', () => {
+    it('should persist entries in the given storage', async () => {
+      const storage = new FakeStorage();
+      const store = new LocalStorageCacheStore({ storage });
+
+      await store.set('key', entry);
+
+      expect(storage.getItem('phlag:key')).toBe(JSON.stringify(entry));
+      expect(await new LocalStorageCacheStore({ storage }).get('key')).toEqual(entry);
+
+      await store.delete('key');
+      expect(storage.length).toBe(0);
+    });
+
+    it('should log quota errors instead of throwing', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const storage = new FakeStorage();
+      storage.quotaExceeded = true;
+      const store = new LocalStorageCacheStore({ storage });
+
+      await expect(store.set('key', entry)).resolves.toBeUndefined();
+
+      expect(await store.get('key')).toBeNull();
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Phlag: Unable to update localStorage cache',
+        'QuotaExceededError'
+      );
+    });
+  });
+
+  describe('IndexedDBCacheStore', () => {
+    it('should create the object store when the database is first opened', async () => {
+      const indexedDB = new FakeIndexedDB();
+      const options = { indexedDB: indexedDB as unknown as IDBFactory, database: 'app' };
+
+      await new IndexedDBCacheStore({ ...options, storeName: 'snapshots' }).set('key', entry);
+      const store = new IndexedDBCacheStore({ ...options, storeName: 'snapshots' });
+
+      expect(await store.get('key')).toEqual(entry);
+      expect(indexedDB.createObjectStore).toHaveBeenCalledTimes(1);
+      expect(indexedDB.createObjectStore).toHaveBeenCalledWith('snapshots');
+      expect(indexedDB.databases.get('app')!.get('snapshots')!.has('key')).toBe(true);
+    });
+
+    it('should store, read and delete entries over one connection', async () => {
+      const indexedDB = new FakeIndexedDB();
+      const store = new IndexedDBCacheStore({ indexedDB: indexedDB as unknown as IDBFactory });
+
+      expect(await store.get('key')).toBeNull();
+      await store.set('key', entry);
+      expect(await store.get('key')).toEqual(entry);
+
+      await store.delete('key');
+      expect(await store.get('key')).toBeNull();
+      expect(indexedDB.opens).toBe(1);
+    });
+
+    it('should retry opening the database after a failure', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const indexedDB = new FakeIndexedDB();
+      indexedDB.failOpens = 2;
+      const store = new IndexedDBCacheStore({ indexedDB: indexedDB as unknown as IDBFactory });
+
+      expect(await store.get('key')).toBeNull();
+      await store.set('key', entry);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Phlag: Unable to update IndexedDB cache',
+        'Open blocked'
+      );
+
+      await store.set('key', entry);
+      expect(await store.get('key')).toEqual(entry);
+      expect(indexedDB.opens).toBe(3);
+    });
+  });
+
+  describe('BrowserCacheStore', () => {
+    const key = 'http://localhost:8000|production';
+
+    /**
+     * Fires a storage event as the browser does for writes in other tabs
+     */
+    const storageEvent = (storageKey: string | null) =>
+      Object.assign(new Event('storage'), { key: storageKey });
+
+    it('should persist the snapshot with its key, fetch time and expiry', async () => {
+      const storage = new FakeStorage();
+      const fetchedAt = Date.now();
+      const store = new BrowserCacheStore({ storage, fallback: new MemoryCacheStore() });
+
+      await store.set(key, { flags: { feature: true }, fetchedAt }, 300);
+
+      expect(JSON.parse(storage.getItem(`phlag:${key}`)!)).toEqual({
+        key,
+        fetchedAt,
+        expiresAt: fetchedAt + 300000,
+        flags: { feature: true },
+      });
+      expect(await new BrowserCacheStore({ storage }).get(key)).toEqual({
+        flags: { feature: true },
+        fetchedAt,
+      });
+      expect(await store.getMetadata(key)).toEqual({ fetchedAt });
+    });
+
+    it('should drop snapshots past the cache TTL', async () => {
+      const storage = new FakeStorage();
+      const store = new BrowserCacheStore({ storage, fallback: new MemoryCacheStore() });
+
+      await store.set(key, { flags: { feature: true }, fetchedAt: Date.now() - 301000 }, 300);
+
+      expect(await store.getMetadata(key)).toBeNull();
+      expect(await store.get(key)).toBeNull();
+      expect(storage.length).toBe(0);
+    });
+
+    it('should ignore records written for another key', async () => {
+      const storage = new FakeStorage();
+      const store = new BrowserCacheStore({ storage, fallback: new MemoryCacheStore() });
+      storage.setItem(
+        `phlag:${key}`,
+        JSON.stringify({ key: 'other', fetchedAt: Date.now(), expiresAt: Infinity, flags: {} })
+      );
+
+      expect(await store.get(key)).toBeNull();
+    });
+
+    it('should move large snapshots to the fallback store', async () => {
+      const storage = new FakeStorage();
+      const fallback = new MemoryCacheStore();
+      const store = new BrowserCacheStore({ storage, fallback, maxLocalStorageLength: 150 });
+      const flags = { description: 'x'.repeat(200) };
+      const fetchedAt = Date.now();
+
+      await store.set(key, { flags, fetchedAt }, 300);
+
+      expect(JSON.parse(storage.getItem(`phlag:${key}`)!)).not.toHaveProperty('flags');
+      expect(await fallback.get(key)).toEqual({ flags, fetchedAt });
+      expect(await store.get(key)).toEqual({ flags, fetchedAt });
+
+      // A snapshot that fits again moves back and clears the fallback copy
+      await store.set(key, { flags: { feature: true }, fetchedAt }, 300);
+      expect(await fallback.get(key)).toBeNull();
+      expect(await store.get(key)).toEqual({ flags: { feature: true }, fetchedAt });
+    });
+
+    it('should use the fallback store when localStorage is full', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const storage = new FakeStorage();
+      const fallback = new MemoryCacheStore();
+      const store = new BrowserCacheStore({ storage, fallback });
+      await store.set(key, { flags: { feature: false }, fetchedAt: Date.now() }, 300);
+      storage.quotaExceeded = true;
+
+      await store.set(key, { flags: { feature: true }, fetchedAt: Date.now() }, 300);
+
+      expect(await fallback.get(key)).toMatchObject({ flags: { feature: true } });
+      // The outdated record was removed rather than left behind
+      expect(storage.length).toBe(0);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Phlag: Unable to update browser cache: localStorage is full'
+      );
+    });
+
+    it('should use the fallback store without localStorage', async () => {
+      const fallback = new MemoryCacheStore();
+      const store = new BrowserCacheStore({ fallback });
+      const entry = { flags: { feature: true }, fetchedAt: Date.now() };
+
+      await store.set(key, entry, 300);
+
+      expect(await store.get(key)).toEqual(entry);
+      expect(await store.getMetadata(key)).toEqual({ fetchedAt: entry.fetchedAt });
+    });
+
+    it('should notify subscribers of writes from other tabs', async () => {
+      const storage = new FakeStorage();
+      const eventTarget = new EventTarget();
+      const store = new BrowserCacheStore({ storage, eventTarget });
+      const listener = vi.fn();
+      const unsubscribe = store.subscribe(key, listener);
+
+      const entry = { flags: { feature: true }, fetchedAt: Date.now() };
+      await new BrowserCacheStore({ storage }).set(key, entry, 300);
+      eventTarget.dispatchEvent(storageEvent('phlag:other'));
+      eventTarget.dispatchEvent(storageEvent(`phlag:${key}`));
+
+      await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(entry));
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      unsubscribe();
+      eventTarget.dispatchEvent(storageEvent(`phlag:${key}`));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('FileCacheStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(`${tmpdir()}/phlag_stores_`);
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write one file per key in the directory', async () => {
+      const store = new FileCacheStore({ directory });
+
+      await store.set('a', entry);
+      await store.set('b', { flags: { feature: false }, fetchedAt: Date.now() });
+
+      expect(store.getFilename('a')).not.toBe(store.getFilename('b'));
+      expect(store.getFilename('a').startsWith(`${directory}/phlag_cache_`)).toBe(true);
+      expect((await store.get('a'))!.flags).toEqual(entry.flags);
+      expect((await store.get('b'))!.fetchedAt).toBeGreaterThan(0);
+
+      await store.delete('a');
+      expect(existsSync(store.getFilename('a'))).toBe(false);
+      expect(await store.get('a')).toBeNull();
+    });
+  });
+
+  describe('PhlagClient with cacheStore', () => {
+    const baseUrl = 'http://localhost:8000';
+    const apiKey = 'test-api-key-64-chars-long-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+    const environment = 'production';
+
+    const allFlags = {
+      ok: true,
+      status: 200,
+      text: async () => JSON.stringify({ feature: true }),
+    };
+
+    it('should share a snapshot between clients through the store', async () => {
+      const cacheStore = new MemoryCacheStore();
+      (fetch as any).mockResolvedValue(allFlags);
+
+      const first = new PhlagClient({ baseUrl, apiKey, environment, cache: true, cacheStore });
+      expect(await first.getFlag('feature')).toBe(true);
+
+      const second = new PhlagClient({ baseUrl, apiKey, environment, cache: true, cacheStore });
+      expect(await second.getFlag('feature')).toBe(true);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(await cacheStore.get(`${baseUrl}|${environment}`)).toMatchObject({
+        flags: { feature: true },
+      });
+    });
+
+    it('should not work out a cache file path for a custom store', () => {
+      vi.mocked(generateCacheFilename).mockClear();
+
+      new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment,
+        cache: true,
+        cacheStore: new MemoryCacheStore(),
+      });
+      new PhlagClient({ baseUrl, apiKey, environment });
+
+      expect(generateCacheFilename).not.toHaveBeenCalled();
+    });
+
+    it('should skip expired snapshots without reading them', async () => {
+      const cacheStore = new MemoryCacheStore();
+      await cacheStore.set(`${baseUrl}|${environment}`, {
+        flags: { feature: false },
+        fetchedAt: Date.now() - 301000,
+      });
+      const getSpy = vi.spyOn(cacheStore, 'get');
+      (fetch as any).mockResolvedValue(allFlags);
+
+      const client = new PhlagClient({ baseUrl, apiKey, environment, cache: true, cacheStore });
+
+      expect(await client.getFlag('feature')).toBe(true);
+      expect(getSpy).not.toHaveBeenCalled();
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should read stores without getMetadata once per lookup', async () => {
+      const fetchedAt = Date.now();
+      const cacheStore: FlagCacheStore = {
+        get: vi.fn().mockResolvedValue({ flags: { feature: false }, fetchedAt }),
+        set: vi.fn(),
+        delete: vi.fn(),
+      };
+
+      const client = new PhlagClient({ baseUrl, apiKey, environment, cache: true, cacheStore });
+
+      expect(await client.getFlag('feature')).toBe(false);
+      expect(cacheStore.get).toHaveBeenCalledTimes(1);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the API when the store fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const cacheStore: FlagCacheStore = {
+        get: vi.fn(),
+        set: vi.fn().mockRejectedValue(new Error('store down')),
+        delete: vi.fn().mockRejectedValue(new Error('store down')),
+        getMetadata: vi.fn().mockRejectedValue(new Error('store down')),
+      };
+      (fetch as any).mockResolvedValue(allFlags);
+
+      const client = new PhlagClient({ baseUrl, apiKey, environment, cache: true, cacheStore });
+
+      expect(await client.getFlag('feature')).toBe(true);
+      await expect(client.clearCache()).resolves.toBeUndefined();
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Phlag: Unable to read cache store',
+        expect.any(Error)
+      );
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Phlag: Unable to write cache store',
+        expect.any(Error)
+      );
+    });
+
+    it('should apply snapshots refreshed in another tab once started', async () => {
+      const storage = new FakeStorage();
+      const eventTarget = new EventTarget();
+      const cacheStore = new BrowserCacheStore({ storage, eventTarget });
+      const key = `${baseUrl}|${environment}`;
+      (fetch as any).mockResolvedValue(allFlags);
+
+      const client = new PhlagClient({ baseUrl, apiKey, environment, cache: true, cacheStore });
+      const onChange = vi.fn();
+      client.on('change', onChange);
+      await client.warmCache();
+      client.start();
+      expect(client.isRunning()).toBe(true);
+
+      // Another tab refreshed the flags
+      await new BrowserCacheStore({ storage }).set(
+        key,
+        { flags: { feature: false }, fetchedAt: Date.now() + 1 },
+        300
+      );
+      eventTarget.dispatchEvent(Object.assign(new Event('storage'), { key: `phlag:${key}` }));
+
+      await vi.waitFor(() =>
+        expect(onChange).toHaveBeenCalledWith({
+          name: 'feature',
+          oldValue: true,
+          newValue: false,
+        })
+      );
+      expect(await client.getFlag('feature')).toBe(false);
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      client.stop();
+      expect(client.isRunning()).toBe(false);
+    });
+
+    it('should delete the entry on clearCache()', async () => {
+      const cacheStore = new MemoryCacheStore();
+      (fetch as any).mockResolvedValue(allFlags);
+
+      const client = new PhlagClient({ baseUrl, apiKey, environment, cache: true, cacheStore });
+      await client.warmCache();
+      await client.clearCache();
+
+      expect(await cacheStore.get(`${baseUrl}|${environment}`)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, expectTypeOf, vi, beforeEach } from 'vitest';
+import type { Meter, Tracer } from '@opentelemetry/api';
+import { Telemetry } from '../src/telemetry.js';
+import { PhlagClient } from '../src/PhlagClient.js';
+import { NetworkError, PhlagError } from '../src/exceptions/index.js';
+import type { TelemetryOptions } from '../src/types.js';
+import { tmpdir } from 'os';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+const createSpan = () => ({
+  setAttribute: vi.fn(),
+  setAttributes: vi.fn(),
+  recordException: vi.fn(),
+  setStatus: vi.fn(),
+  end: vi.fn(),
+});
+
+const createTracer = () => {
+  const spans: Array<{ name: string; options: any; span: ReturnType<typeof createSpan> }> = [];
+  const tracer = {
+    startSpan: vi.fn((name: string, options: any) => {
+      const span = createSpan();
+      spans.push({ name, options, span });
+      return span;
+    }),
+    startActiveSpan: vi.fn((name: string, options: any, fn: (span: any) => unknown) => {
+      const span = createSpan();
+      spans.push({ name, options, span });
+      return fn(span);
+    }),
+  };
+
+  return { tracer: tracer as any, spans };
+};
+
+const createMeter = () => {
+  const records: Array<{ name: string; value: number; attributes: any }> = [];
+  const instrument = (name: string) => ({
+    add: vi.fn((value: number, attributes: any) => records.push({ name, value, attributes })),
+    record: vi.fn((value: number, attributes: any) => records.push({ name, value, attributes })),
+  });
+  const meter = {
+    createCounter: vi.fn(instrument),
+    createHistogram: vi.fn(instrument),
+  };
+
+  return { meter: meter as any, records };
+};
+
+const request = {
+  endpoint: 'all-flags/production',
+  url: 'http://localhost:8000/all-flags/production',
+  headers: {},
+};
+
+describe('Telemetry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should do nothing without a tracer or meter', () => {
+    const telemetry = new Telemetry();
+
+    expect(() => telemetry.startRequest(request).end(200)).not.toThrow();
+    expect(() => telemetry.recordCacheLookup('production', true, false, 1)).not.toThrow();
+  });
+
+  it('should accept the tracer and meter from @opentelemetry/api', () => {
+    expectTypeOf<{ tracer: Tracer; meter: Meter }>().toExtend<TelemetryOptions>();
+  });
+
+  it('should record a span and latency for a request', () => {
+    const { tracer, spans } = createTracer();
+    const { meter, records } = createMeter();
+    const telemetry = new Telemetry({ tracer, meter });
+
+    telemetry.startRequest(request).end(200);
+
+    expect(spans[0].name).toBe('phlag.request');
+    expect(spans[0].options.attributes['phlag.endpoint']).toBe('all-flags/production');
+    expect(spans[0].span.setAttributes).toHaveBeenCalledWith({
+      'phlag.endpoint.type': 'all-flags',
+      'http.response.status_code': 200,
+    });
+    expect(spans[0].span.end).toHaveBeenCalledTimes(1);
+    expect(records).toEqual([
+      {
+        name: 'phlag.client.request.duration',
+        value: expect.any(Number),
+        attributes: { 'phlag.endpoint.type': 'all-flags', 'http.response.status_code': 200 },
+      },
+    ]);
+  });
+
+  it('should record failed requests by error class', () => {
+    const { tracer, spans } = createTracer();
+    const { meter, records } = createMeter();
+    const telemetry = new Telemetry({ tracer, meter });
+    const error = new NetworkError('Connection refused');
+
+    const trace = telemetry.startRequest(request);
+    trace.end(undefined, error);
+    trace.end(undefined, error);
+
+    expect(spans[0].span.recordException).toHaveBeenCalledWith(error);
+    expect(spans[0].span.setStatus).toHaveBeenCalledWith({ code: 2, message: error.message });
+    expect(spans[0].span.end).toHaveBeenCalledTimes(1);
+    expect(records.filter((r) => r.name === 'phlag.client.errors')).toEqual([
+      {
+        name: 'phlag.client.errors',
+        value: 1,
+        attributes: { 'error.type': 'NetworkError', 'phlag.endpoint.type': 'all-flags' },
+      },
+    ]);
+  });
+
+  it('should record cache lookups and age', () => {
+    const { meter, records } = createMeter();
+    const telemetry = new Telemetry({ meter });
+
+    telemetry.recordCacheLookup('production', true, true, 42);
+
+    expect(records).toEqual([
+      {
+        name: 'phlag.cache.lookups',
+        value: 1,
+        attributes: {
+          'phlag.environment': 'production',
+          'phlag.cache.hit': true,
+          'phlag.cache.stale': true,
+        },
+      },
+      { name: 'phlag.cache.age', value: 42, attributes: { 'phlag.environment': 'production' } },
+    ]);
+  });
+
+  describe('with PhlagClient', () => {
+    const baseUrl = 'http://localhost:8000';
+    const apiKey = 'test-api-key-64-chars-long-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+
+    it('should trace flag reads with cache hits and misses', async () => {
+      const { tracer, spans } = createTracer();
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment: 'production',
+        cache: true,
+        cacheFile: `${tmpdir()}/phlag_telemetry_test.json`,
+        telemetry: { tracer },
+      });
+      (fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ feature_one: true }),
+      });
+
+      await client.getFlag('feature_one');
+      await client.getFlag('feature_one');
+      await client.clearCache();
+
+      const flagSpans = spans.filter((s) => s.name === 'phlag.get_flag');
+      expect(flagSpans).toHaveLength(2);
+      expect(flagSpans[0].options.attributes).toEqual({
+        'phlag.flag.name': 'feature_one',
+        'phlag.environment': 'production',
+      });
+      expect(flagSpans[0].span.setAttribute).toHaveBeenCalledWith('phlag.cache.hit', false);
+      expect(flagSpans[1].span.setAttribute).toHaveBeenCalledWith('phlag.cache.hit', true);
+      expect(spans.filter((s) => s.name === 'phlag.request')).toHaveLength(1);
+    });
+
+    it('should mark the flag span as failed when the read throws', async () => {
+      const { tracer, spans } = createTracer();
+      const client = new PhlagClient({
+        baseUrl,
+        apiKey,
+        environment: 'production',
+        telemetry: { tracer },
+      });
+      (fetch as any).mockResolvedValueOnce({ ok: false, status: 500, text: async () => '' });
+
+      await expect(client.getFlag('feature_one')).rejects.toThrow(PhlagError);
+
+      const flagSpan = spans.find((s) => s.name === 'phlag.get_flag')!;
+      expect(flagSpan.span.setStatus).toHaveBeenCalledWith(expect.objectContaining({ code: 2 }));
+      expect(flagSpan.span.end).toHaveBeenCalledTimes(1);
+    });
+  });
+});